@@ -40,3 +40,8 @@ REPORT="📊 $TODAY
 echo "$REPORT"
 
 osascript -e "display notification \"$REPORT\" with title \"Daily Report\" sound name \"Glass\""
+
+# Also send it to the configured notification sinks, without failing the
+# report when none of them are reachable
+echo "$REPORT" | (cd "$VAULT/.." && bun src/cli.ts notify --subject "Daily Report") \
+  || echo "Failed to send the daily report to the notification sinks" >&2
@@ -0,0 +1,83 @@
+/**
+ * Rebuilds src/data/cities.tsv and src/data/countries.tsv from the GeoNames
+ * dumps (https://download.geonames.org/export/dump/):
+ *
+ *   bun scripts/extract-geonames.ts cities15000.txt countryInfo.txt
+ *
+ * Cities keep the columns the gazetteer reads, with alternate names limited
+ * to Latin-script names so the file stays small. Sections of a city (PPLX,
+ * e.g. Mitte or Eixample) are left out so coordinates resolve to the city
+ * itself. Rows are ordered by population, which decides which city an
+ * ambiguous alternate name means. The alternate names already in
+ * countries.tsv are carried over, since GeoNames has none for countries.
+ */
+import { readFileSync, writeFileSync } from 'node:fs';
+
+const [citiesPath, countryInfoPath] = process.argv.slice(2);
+const dataDir = new URL('../src/data/', import.meta.url);
+
+if (!citiesPath || !countryInfoPath) {
+  console.error(
+    'Usage: bun scripts/extract-geonames.ts cities15000.txt countryInfo.txt'
+  );
+  process.exit(1);
+}
+
+const LATIN_NAME = /^\p{Lu}[\p{Script=Latin}\p{M} .'’-]*$/u;
+const CODE = /^[A-Z]{2,4}$/;
+
+function readRows(path: string): string[][] {
+  return readFileSync(path, 'utf8')
+    .split('\n')
+    .filter((line) => line.trim() !== '' && !line.startsWith('#'))
+    .map((line) => line.split('\t'));
+}
+
+const cities = readRows(citiesPath)
+  .filter((row) => row[7] !== 'PPLX')
+  .sort((a, b) => Number(b[14]) - Number(a[14]) || Number(a[0]) - Number(b[0]))
+  .map((row) => {
+    const [, name, asciiName, alternateNames, latitude, longitude] = row;
+    const aliases = new Set(
+      [asciiName, ...alternateNames.split(',')].filter(
+        (alias) => alias !== name && LATIN_NAME.test(alias) && !CODE.test(alias)
+      )
+    );
+    return [
+      name,
+      [...aliases].join(','),
+      latitude,
+      longitude,
+      row[8],
+      row[17],
+    ].join('\t');
+  });
+
+writeFileSync(
+  new URL('cities.tsv', dataDir),
+  [
+    '# GeoNames cities15000 (https://www.geonames.org, CC BY), see scripts/extract-geonames.ts',
+    '# name\talternate names\tlatitude\tlongitude\tcountry code\ttimezone',
+    ...cities,
+    '',
+  ].join('\n')
+);
+
+const existingAliases = new Map(
+  readRows(new URL('countries.tsv', dataDir).pathname).map(
+    ([code, , aliases]) => [code, aliases ?? '']
+  )
+);
+const countries = readRows(countryInfoPath).map(([code, , , , name]) =>
+  [code, name, existingAliases.get(code) ?? ''].join('\t')
+);
+
+writeFileSync(
+  new URL('countries.tsv', dataDir),
+  [
+    '# GeoNames countryInfo (https://www.geonames.org, CC BY), see scripts/extract-geonames.ts',
+    '# code\tname\talternate names',
+    ...countries,
+    '',
+  ].join('\n')
+);
@@ -0,0 +1,128 @@
+import { createHmac, timingSafeEqual } from 'node:crypto';
+
+/**
+ * A signature the issue body must carry, as an HTML comment such as
+ * `<!-- signature: ... -->`. The secret is read from an environment variable
+ * so it never lives in the repository.
+ *
+ * - shared-secret: the signature is the secret itself. Issues are readable by
+ *   anyone who can see the repository, so only use this on private repos.
+ * - hmac-sha256: the signature is the hex HMAC of the trimmed body without
+ *   the comment
+ */
+export type SignatureRequirement = {
+  scheme: 'shared-secret' | 'hmac-sha256';
+  secretEnv: string;
+};
+
+/**
+ * Who may open an issue of a given type. `*` allows any author, which only
+ * makes sense together with a signature.
+ */
+export type IssueTypePolicy = {
+  authors: string[];
+  signature?: SignatureRequirement;
+};
+
+export type AuthorizationPolicy = {
+  default: IssueTypePolicy;
+  types?: Record<string, IssueTypePolicy>;
+};
+
+export type AuthorizationResult =
+  { authorized: true; body: string } | { authorized: false; reason: string };
+
+type AuthorizationRequest = {
+  title: string;
+  body: string;
+  author?: string;
+};
+
+const SIGNATURE_PATTERN = /<!--\s*signature:\s*(\S+)\s*-->/;
+
+/**
+ * Splits a signature comment out of an issue body, returning the body the
+ * processors should see
+ */
+export function extractSignature(body: string): {
+  body: string;
+  signature: string | null;
+} {
+  const match = body.match(SIGNATURE_PATTERN);
+  if (!match) {
+    return { body, signature: null };
+  }
+  return {
+    body: body.replace(SIGNATURE_PATTERN, '').trim(),
+    signature: match[1],
+  };
+}
+
+export function signIssueBody(body: string, secret: string): string {
+  return createHmac('sha256', secret).update(body).digest('hex');
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const encoder = new TextEncoder();
+  const bytesA = encoder.encode(a);
+  const bytesB = encoder.encode(b);
+  return bytesA.length === bytesB.length && timingSafeEqual(bytesA, bytesB);
+}
+
+function verifySignature(
+  requirement: SignatureRequirement,
+  body: string,
+  signature: string | null,
+  env: Record<string, string | undefined>
+): string | null {
+  const secret = env[requirement.secretEnv];
+  if (!secret) {
+    return `${requirement.secretEnv} is not set, so signed issues can't be verified`;
+  }
+  if (!signature) {
+    return 'Issue body is missing a signature comment';
+  }
+
+  const expected =
+    requirement.scheme === 'hmac-sha256' ? signIssueBody(body, secret) : secret;
+
+  return safeEqual(signature, expected) ? null : 'Issue signature is invalid';
+}
+
+/**
+ * Checks an issue against the policy for its type, falling back to the
+ * default policy for types without their own entry
+ */
+export function authorizeIssue(
+  { title, body, author }: AuthorizationRequest,
+  policy: AuthorizationPolicy,
+  env: Record<string, string | undefined> = process.env
+): AuthorizationResult {
+  const typePolicy = policy.types?.[title] ?? policy.default;
+  const normalizedAuthor = author?.trim() ?? '';
+
+  if (
+    !typePolicy.authors.includes('*') &&
+    !typePolicy.authors.includes(normalizedAuthor)
+  ) {
+    return {
+      authorized: false,
+      reason: `Issue author "${normalizedAuthor}" is not allowed to open ${title} issues. Expected one of: ${typePolicy.authors.join(', ')}`,
+    };
+  }
+
+  const extracted = extractSignature(body);
+  if (typePolicy.signature) {
+    const error = verifySignature(
+      typePolicy.signature,
+      extracted.body,
+      extracted.signature,
+      env
+    );
+    if (error) {
+      return { authorized: false, reason: error };
+    }
+  }
+
+  return { authorized: true, body: extracted.body };
+}
@@ -1,13 +1,47 @@
 #!/usr/bin/env bun
 
 import { program } from 'commander';
+import { authorizeIssue } from '@src/authorization';
 import config from '@src/config';
-import { ingestHealthDataFromIssue } from '@src/healthkit';
-import { ingestLocationDataFromIssue } from '@src/location';
-import { createGitHubCommenter } from '@src/github';
-import { generateDietMacrosIndex } from '@src/diet';
+import { defineQuantityMetric, registerMetric } from '@src/healthkit-metrics';
+import { readIngestSources } from '@src/ingest';
+import {
+  createGitHubClient,
+  getIssueOutcomeLabel,
+  IssueOutcomeLabel,
+} from '@src/github';
+import {
+  addDietLog,
+  formatDietLogMismatches,
+  generateDietItemsIndex,
+  generateDietMacrosIndex,
+  verifyDietLogs,
+} from '@src/diet';
+import { createDryRun, formatDryRunSummary } from '@src/dry-run';
 import { addMeasurement, measurementTypes } from '@src/measurements';
+import {
+  createNotificationSinks,
+  createNotifier,
+  DEFAULT_NOTIFICATION_SUBJECT,
+  sendNotification,
+} from '@src/notifiers';
+import {
+  findProcessorForIssue,
+  getProcessor,
+  listProcessors,
+  processIssue,
+  runProcessor,
+} from '@src/processors';
+import { findDataGaps, formatGapsTable } from '@src/gaps';
+import { generateLocationStays } from '@src/location-stays';
+import { generateHealthkitRollups } from '@src/rollups';
+import { generateSleepDailyIndex } from '@src/sleep';
 import { addWorkout } from '@src/workouts';
+import { readVaultFile, writeVaultFile } from '@src/vault-io';
+
+config.healthkitExtraMetrics.forEach((metric) =>
+  registerMetric(defineQuantityMetric(metric))
+);
 
 program
   .name('bun src/cli.ts')
@@ -47,6 +81,72 @@ program
     }
   });
 
+const diet = program.command('diet').description('Manage diet logs');
+
+diet
+  .command('add')
+  .description(
+    'Add a diet log row. Leave out the macros to scale them from vault/foods.json, e.g. "whey 62g"'
+  )
+  .argument('<date>', 'Diet log date in YYYY-MM-DD format')
+  .argument('<meal>', 'Meal: breakfast, lunch, snacks or dinner')
+  .argument('<item>', 'Food item, optionally with its amount')
+  .argument('[quantity]', 'Quantity eaten, e.g. "150 g" or "1 katori"')
+  .option('--calories <kcal>', 'Energy in kcal')
+  .option('--carbs <grams>', 'Carbohydrates in grams')
+  .option('--protein <grams>', 'Protein in grams')
+  .option('--fat <grams>', 'Fat in grams')
+  .option('--note <note>', 'Optional note, e.g. how the macros were estimated')
+  .action(
+    async (
+      date: string,
+      meal: string,
+      item: string,
+      quantity: string | undefined,
+      options
+    ) => {
+      try {
+        const result = await addDietLog({
+          date,
+          meal,
+          item,
+          quantity,
+          ...options,
+        });
+        console.log(result.message);
+      } catch (error) {
+        console.error(error instanceof Error ? error.message : error);
+        process.exit(1);
+      }
+    }
+  );
+
+diet
+  .command('verify')
+  .description('Check diet log totals against the meal table rows')
+  .option('--fix', 'Rewrite mismatched frontmatter totals from the rows')
+  .action(async (options) => {
+    try {
+      const result = await verifyDietLogs({ fix: options.fix });
+
+      for (const { fileName, mismatches, fixed } of result.inconsistent) {
+        console.log(
+          `${fixed ? '🔧' : '❌'} ${fileName}: ${formatDietLogMismatches(mismatches)}`
+        );
+      }
+      console.log(
+        `Checked ${result.checked} diet logs, ${result.inconsistent.length} inconsistent${options.fix && result.inconsistent.length > 0 ? ' (fixed)' : ''}`
+      );
+
+      if (result.inconsistent.length > 0 && !options.fix) {
+        process.exit(1);
+      }
+    } catch (error) {
+      console.error(error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
 program.command('generate-diet-macros-index').action(async () => {
   try {
     const result = await generateDietMacrosIndex();
@@ -57,6 +157,101 @@ program.command('generate-diet-macros-index').action(async () => {
   }
 });
 
+program.command('generate-diet-items-index').action(async () => {
+  try {
+    const result = await generateDietItemsIndex();
+    console.log(result);
+  } catch (error) {
+    console.error('An error occurred:', error);
+    process.exit(1);
+  }
+});
+
+program
+  .command('generate-sleep-daily-index')
+  .option(
+    '--target-hours <hours>',
+    'Nightly sleep target used for sleep debt',
+    parseFloat
+  )
+  .action(async (options) => {
+    try {
+      const result = await generateSleepDailyIndex({
+        targetHours: options.targetHours,
+      });
+      console.log(result);
+    } catch (error) {
+      console.error('An error occurred:', error);
+      process.exit(1);
+    }
+  });
+
+program.command('generate-healthkit-rollups').action(async () => {
+  try {
+    const result = await generateHealthkitRollups();
+    console.log(result);
+  } catch (error) {
+    console.error('An error occurred:', error);
+    process.exit(1);
+  }
+});
+
+program
+  .command('generate-location-stays')
+  .option(
+    '--as-of <date>',
+    'Last day counted for the current stay, in YYYY-MM-DD format'
+  )
+  .action(async (options) => {
+    try {
+      const result = await generateLocationStays({ asOf: options.asOf });
+      console.log(result);
+    } catch (error) {
+      console.error('An error occurred:', error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('gaps')
+  .description('List days with no data in each vault stream')
+  .option(
+    '--from <date>',
+    "First day to check, defaults to each stream's first entry"
+  )
+  .option('--to <date>', 'Last day to check, defaults to today')
+  .option(
+    '--stream <names...>',
+    'Only check these streams, e.g. diet workouts healthkit/steps or healthkit'
+  )
+  .option('--format <format>', 'Output format: table or json', 'table')
+  .action(async (options) => {
+    try {
+      for (const date of [options.from, options.to]) {
+        if (date !== undefined && !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+          throw new Error('Dates must use YYYY-MM-DD format.');
+        }
+      }
+      if (!['table', 'json'].includes(options.format)) {
+        throw new Error(`Unknown format: ${options.format}`);
+      }
+
+      const results = await findDataGaps({
+        from: options.from,
+        to: options.to,
+        streams: options.stream,
+      });
+      console.log(
+        options.format === 'json'
+          ? JSON.stringify(results, null, 2)
+          : formatGapsTable(results)
+      );
+    } catch (error) {
+      console.error(error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
 program
   .command('process-issue')
   .option('--issue-number <number>', 'GitHub issue number', parseInt)
@@ -64,6 +259,11 @@ program
   .option('--issue-body <body>', 'GitHub issue body')
   .option('--issue-author <author>', 'GitHub issue author')
   .option('--issue-created-at <createdAt>', 'GitHub issue created timestamp')
+  .option('--issue-labels <labels>', 'Comma-separated GitHub issue labels')
+  .option(
+    '--dry-run',
+    'Run the pipeline in memory and report what would change without writing'
+  )
   .action(async (options) => {
     try {
       const {
@@ -72,6 +272,8 @@ program
         issueBody,
         issueCreatedAt,
         issueAuthor,
+        issueLabels,
+        dryRun,
       } = options;
 
       if (!issueNumber || !issueTitle || !issueBody) {
@@ -84,87 +286,214 @@ program
         process.exit(1);
       }
 
-      const normalizedAuthor = issueAuthor?.trim();
-      if (
-        normalizedAuthor !== '0x4444' &&
-        normalizedAuthor !== 'shivekkhurana'
-      ) {
-        console.error(
-          `Issue author is not authorized. Received: "${issueAuthor}" (normalized: "${normalizedAuthor}")`
-        );
-        console.error('Expected: "0x4444" or "shivekkhurana"');
-        process.exit(1);
-      }
-
-      // Create GitHub commenter if token is available
       const githubToken = process.env.GITHUB_TOKEN;
       const githubRepo = process.env.GITHUB_REPOSITORY;
-      let commenter: ((comment: string) => Promise<void>) | undefined;
+      const githubClient =
+        githubToken && githubRepo && issueNumber
+          ? createGitHubClient({
+              token: githubToken,
+              repository: githubRepo,
+              issueNumber,
+            })
+          : null;
+      const notify = createNotifier(
+        createNotificationSinks(config.notificationSinks, { githubClient })
+      );
+      const labelIssue = async (label: IssueOutcomeLabel) => {
+        try {
+          await githubClient?.addLabels([label]);
+        } catch (error) {
+          console.error('Failed to label GitHub issue:', error);
+        }
+      };
 
-      if (githubToken && githubRepo && issueNumber) {
-        commenter = createGitHubCommenter(githubToken, githubRepo, issueNumber);
+      const labels: string[] =
+        issueLabels
+          ?.split(',')
+          .map((label: string) => label.trim())
+          .filter(Boolean) ?? [];
+
+      // Policies are keyed by processor so label and prefix matches share them
+      const authorization = authorizeIssue(
+        {
+          title:
+            findProcessorForIssue({
+              title: issueTitle,
+              body: issueBody,
+              labels,
+            })?.name ?? issueTitle,
+          body: issueBody,
+          author: issueAuthor,
+        },
+        config.issueAuthorization
+      );
+      if (!authorization.authorized) {
+        console.error(authorization.reason);
+        // A dry run only reports the rejection and leaves the issue open
+        if (dryRun) {
+          await notify(
+            `🧪 Dry run: this issue would not be processed: ${authorization.reason}`
+          );
+          process.exit(1);
+        }
+        await notify(`⛔ Not processed: ${authorization.reason}`);
+        await labelIssue('rejected');
+        await githubClient?.close('not_planned').catch((error) => {
+          console.error('Failed to close GitHub issue:', error);
+        });
+        process.exit(1);
       }
 
-      // Create file writer/reader functions
-      const writer = async (path: string, content: string) => {
-        await Bun.write(path, content);
-      };
+      // In a dry run, processor comments are held back and posted together
+      // with the diff summary once the pipeline has finished
+      const dryRunComments: string[] = [];
+      const dryRunSession = dryRun ? createDryRun(readVaultFile) : null;
+      const commenter = dryRunSession
+        ? async (comment: string) => {
+            dryRunComments.push(comment);
+          }
+        : notify;
+      const writer = dryRunSession?.writer ?? writeVaultFile;
+      const reader = dryRunSession?.reader ?? readVaultFile;
 
-      const reader = async (path: string): Promise<string> => {
-        const file = Bun.file(path);
-        if (await file.exists()) {
-          return await file.text();
-        }
-        throw new Error('File not found');
-      };
+      const result = await processIssue(
+        {
+          title: issueTitle,
+          body: authorization.body,
+          createdAt: issueCreatedAt,
+          labels,
+        },
+        writer,
+        reader,
+        commenter
+      );
 
-      // Route to appropriate processor based on issue title
-      let result: { success: boolean; message: string };
+      if (dryRunSession) {
+        const summary = [
+          formatDryRunSummary(dryRunSession.summarize()),
+          ...dryRunComments,
+        ].join('\n\n');
+        console.log(summary);
+        await notify(summary);
+      } else {
+        console.log(result.message);
+        await labelIssue(getIssueOutcomeLabel(result));
+      }
 
-      if (issueTitle === 'HealthDataExport') {
-        // Ingest the health data
-        result = await ingestHealthDataFromIssue(
-          {
-            title: issueTitle,
-            body: issueBody,
-            createdAt: issueCreatedAt,
-          },
-          writer,
-          reader,
-          commenter,
-          config.healthkitFolderPath
+      process.exit(result.success ? 0 : 1);
+    } catch (error) {
+      console.error('An error occurred:', error);
+      process.exit(1);
+    }
+  });
+
+type IngestCommandOptions = { type: string; createdAt?: string };
+
+program
+  .command('ingest')
+  .description(
+    'Ingest exported payloads from files, globs or stdin without GitHub'
+  )
+  .requiredOption(
+    '--type <type>',
+    `Payload type: ${listProcessors()
+      .map((processor) => processor.name)
+      .join(', ')}`
+  )
+  .argument('[paths...]', 'Files or glob patterns; reads stdin when omitted')
+  .option(
+    '--created-at <createdAt>',
+    'When the payloads were first sent (ISO 8601), used as the issue creation time'
+  )
+  .action(async (paths: string[], options: IngestCommandOptions) => {
+    try {
+      const processor = getProcessor(options.type);
+      if (!processor) {
+        console.error(
+          `Unknown type: ${options.type}. Expected one of ${listProcessors()
+            .map((registered) => registered.name)
+            .join(', ')}`
         );
-      } else if (issueTitle === 'LocationDataExport') {
-        // Ingest the location data
-        result = await ingestLocationDataFromIssue(
-          {
-            title: issueTitle,
-            body: issueBody,
-            createdAt: issueCreatedAt,
+        process.exit(1);
+      }
+
+      const sources = await readIngestSources(paths);
+      const notify = createNotifier(
+        createNotificationSinks(config.notificationSinks)
+      );
+      let failures = 0;
+
+      for (const source of sources) {
+        const result = await runProcessor(processor, {
+          issue: {
+            title: options.type,
+            body: source.body,
+            createdAt: options.createdAt,
           },
-          writer,
-          reader,
-          commenter,
-          config.locationFilePath
-        );
-      } else {
-        const errorMsg = `Unknown issue type: ${issueTitle}. Expected "HealthDataExport" or "LocationDataExport"`;
-        console.error(errorMsg);
-        if (commenter) {
-          await commenter(`❌ ${errorMsg}`);
+          writer: writeVaultFile,
+          reader: readVaultFile,
+          commenter: notify,
+        });
+        if (!result.success) {
+          failures++;
         }
-        result = {
-          success: false,
-          message: errorMsg,
-        };
+        console.log(`${source.name}: ${result.message}`);
       }
 
-      console.log(result.message);
-      process.exit(result.success ? 0 : 1);
+      process.exit(failures > 0 ? 1 : 0);
     } catch (error) {
       console.error('An error occurred:', error);
       process.exit(1);
     }
   });
 
+program
+  .command('notify')
+  .description('Send a message to the configured notification sinks')
+  .argument('[message...]', 'Message to send; reads stdin when omitted')
+  .option('--subject <subject>', 'Subject line', DEFAULT_NOTIFICATION_SUBJECT)
+  .option(
+    '--sink <types>',
+    'Comma-separated sink types to use instead of all configured sinks'
+  )
+  .action(
+    async (words: string[], options: { subject: string; sink?: string }) => {
+      try {
+        const message =
+          words.length > 0 ? words.join(' ') : (await Bun.stdin.text()).trim();
+        if (message === '') {
+          console.error('Notification message cannot be empty');
+          process.exit(1);
+        }
+
+        const types = options.sink?.split(',').map((type) => type.trim());
+        const sinks = createNotificationSinks(
+          config.notificationSinks.filter(
+            (sink) => !types || types.includes(sink.type)
+          )
+        );
+        if (sinks.length === 0) {
+          console.error('No notification sinks are available');
+          process.exit(1);
+        }
+
+        const failures = await sendNotification(
+          sinks,
+          message,
+          options.subject
+        );
+        failures.forEach(({ sink, error }) =>
+          console.error(`Failed to notify ${sink}:`, error)
+        );
+        console.log(
+          `Sent to ${sinks.length - failures.length} of ${sinks.length} sinks`
+        );
+        process.exit(failures.length > 0 ? 1 : 0);
+      } catch (error) {
+        console.error('An error occurred:', error);
+        process.exit(1);
+      }
+    }
+  );
+
 program.parse(process.argv);
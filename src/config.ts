@@ -1,4 +1,62 @@
+import type { AuthorizationPolicy } from '@src/authorization';
+import type { QuantityMetricConfig } from '@src/healthkit-metrics';
+import type { MacroTargetPeriod } from '@src/macro-targets';
+import type { SourcePriorityPolicy } from '@src/healthkit';
+import type { NotificationSinkConfig } from '@src/notifiers';
+
+// Extra Health Auto Export metrics stored as plain {qty, source, date} rows, e.g.
+// { name: 'headphone_audio_exposure', units: 'dBASPL', fileName: 'headphoneAudio.json' }
+const healthkitExtraMetrics: QuantityMetricConfig[] = [];
+
+// Which device wins when several recorded the same day in a merged daily view
+const healthkitSourcePriority: SourcePriorityPolicy = {
+  default: ['Ultrahuman', 'Apple Watch', 'iPhone'],
+};
+
+// Who may open issues that process-issue acts on. Types without an entry use
+// the default, e.g. to let a shortcut post signed location updates:
+// LocationDataExport: {
+//   authors: ['*'],
+//   signature: { scheme: 'hmac-sha256', secretEnv: 'ISSUE_SIGNING_SECRET' },
+// }
+const issueAuthorization: AuthorizationPolicy = {
+  default: { authors: ['0x4444', 'shivekkhurana'] },
+  types: {},
+};
+
+// Where ingestion results and `notify` messages are sent. Besides the issue
+// being processed, messages can go to e.g.
+// { type: 'webhook', urlEnv: 'NOTIFY_WEBHOOK_URL' }
+// { type: 'smtp', hostEnv: 'SMTP_HOST', port: 465, secure: true,
+//   usernameEnv: 'SMTP_USERNAME', passwordEnv: 'SMTP_PASSWORD',
+//   from: 'vault@example.com', to: ['me@example.com'] }
+// { type: 'stdout', format: 'jsonl' }
+const notificationSinks: NotificationSinkConfig[] = [{ type: 'github' }];
+
+// Days outside this country count as days abroad in location-stays.json
+const homeCountry = 'India';
+
+// Daily diet targets scored in macros.json. Add a period with a later `from`
+// when the targets change; earlier days keep the targets they had.
+const macroTargets: MacroTargetPeriod[] = [
+  {
+    from: '2026-07-03',
+    calories: 2000,
+    proteinPerKg: 1.8,
+    carbs_g: { min: 180, max: 260 },
+    fat_g: { min: 45, max: 70 },
+  },
+];
+
 export default {
   healthkitFolderPath: './vault/healthkit',
   locationFilePath: './vault/location.json',
+  locationStaysFilePath: './vault/location-stays.json',
+  homeCountry,
+  healthkitExtraMetrics,
+  healthkitSourcePriority,
+  sleepTargetHours: 8,
+  macroTargets,
+  issueAuthorization,
+  notificationSinks,
 };
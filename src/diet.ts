@@ -1,3 +1,20 @@
+import { z } from "zod";
+import config from "@src/config";
+import { readFoods, resolveFoodEntry } from "@src/foods";
+import { nonnegativeNumberField, parseIssueBody } from "@src/issue-body";
+import {
+  buildMacroAdherenceSummary,
+  MacroTargetPeriod,
+  ScoredMacroEntry,
+  scoreMacroEntries,
+} from "@src/macro-targets";
+import {
+  measurementsPath as defaultMeasurementsPath,
+  readMeasurements,
+} from "@src/measurements";
+import { getCurrentDate } from "@src/time";
+import { readVaultFile, writeVaultFile } from "@src/vault-io";
+
 type DietMacroEntry = {
   date: string;
   calories: number;
@@ -6,13 +23,80 @@ type DietMacroEntry = {
   fat_g: number;
 };
 
-type DietMacroIndex = Record<string, DietMacroEntry>;
+type DietMacroIndex = Record<string, ScoredMacroEntry>;
+
+type DietItem = {
+  date: string;
+  meal: Lowercase<DietMeal>;
+  timestamp: string;
+  item: string;
+  quantity: string;
+  calories: number;
+  carbs_g: number;
+  protein_g: number;
+  fat_g: number;
+  note: string | null;
+};
+
+type WriterFunction = (path: string, content: string) => Promise<void>;
+type ReaderFunction = (path: string) => Promise<string>;
+type CommentFunction = (comment: string) => Promise<void>;
 
-type GenerateDietMacrosIndexOptions = {
+const dietMeals = ["Breakfast", "Lunch", "Snacks", "Dinner"] as const;
+
+type DietMeal = (typeof dietMeals)[number];
+
+const dietLogsPath = process.env.DIET_LOGS_PATH || "./vault/diet-logs";
+
+const DIET_TABLE_HEADER = [
+  "| Timestamp (GMT) | Item | Quantity | Calories | Carbs | Protein | Fat | Notes |",
+  "| --- | --- | ---: | ---: | ---: | ---: | ---: | --- |",
+].join("\n");
+
+type GenerateDietItemsIndexOptions = {
   logsDir?: string;
   savePath?: string;
 };
 
+type GenerateDietMacrosIndexOptions = GenerateDietItemsIndexOptions & {
+  adherenceSavePath?: string;
+  targets?: MacroTargetPeriod[];
+  measurementsPath?: string;
+};
+
+type VerifyDietLogsOptions = {
+  logsDir?: string;
+  fix?: boolean;
+};
+
+type DietTotalField = Exclude<keyof DietMacroEntry, "date">;
+
+// A frontmatter total that disagrees with the sum of the meal table rows
+type DietLogMismatch = {
+  field: DietTotalField;
+  recorded: number;
+  computed: number;
+};
+
+const dietTotalFields: DietTotalField[] = [
+  "calories",
+  "carbs_g",
+  "protein_g",
+  "fat_g",
+];
+
+// Maps meal table headers to the columns they hold
+const DIET_TABLE_COLUMNS: Record<string, keyof DietItem> = {
+  timestamp: "timestamp",
+  item: "item",
+  quantity: "quantity",
+  calories: "calories",
+  carbs: "carbs_g",
+  protein: "protein_g",
+  fat: "fat_g",
+  notes: "note",
+};
+
 function parseNumberField(
   frontmatter: Record<string, string>,
   field: string
@@ -67,36 +151,588 @@ function parseDietLogFrontmatter(markdown: string): DietMacroEntry {
   };
 }
 
+/**
+ * Splits a markdown table row into cells, keeping escaped pipes inside cells
+ */
+function splitTableRow(line: string): string[] {
+  return line
+    .trim()
+    .replace(/^\|/, "")
+    .replace(/(?<!\\)\|$/, "")
+    .split(/(?<!\\)\|/)
+    .map((cell) => cell.trim().replace(/\\\|/g, "|"));
+}
+
+// "Calories (kcal)" and "Timestamp (GMT)" match "calories" and "timestamp"
+function normalizeColumnHeader(header: string): string {
+  return header
+    .replace(/\s*\([^)]*\)$/, "")
+    .trim()
+    .toLowerCase();
+}
+
+function parseMacroCell(value: string, unit: string, context: string): number {
+  const number = Number(value.replace(new RegExp(`\\s*${unit}$`), ""));
+
+  if (value === "" || !Number.isFinite(number) || number < 0) {
+    throw new Error(`Invalid ${context}: ${value}`);
+  }
+
+  return number;
+}
+
+/**
+ * Reads every row of the Breakfast, Lunch, Snacks and Dinner tables in a
+ * diet log. Columns are matched by header, so their order doesn't matter.
+ */
+function parseDietLogItems(markdown: string): DietItem[] {
+  const { date } = parseDietLogFrontmatter(markdown);
+  const items: DietItem[] = [];
+  let meal: DietMeal | null = null;
+  let columns: (keyof DietItem | undefined)[] | null = null;
+
+  for (const line of markdown.split("\n").map((raw) => raw.trim())) {
+    if (line.startsWith("#")) {
+      meal = dietMeals.find((name) => line === `## ${name}`) ?? null;
+      columns = null;
+      continue;
+    }
+    if (!meal || !line.startsWith("|")) {
+      continue;
+    }
+
+    const cells = splitTableRow(line);
+    if (!columns) {
+      columns = cells.map(
+        (cell) => DIET_TABLE_COLUMNS[normalizeColumnHeader(cell)]
+      );
+      continue;
+    }
+    if (cells.every((cell) => /^:?-+:?$/.test(cell))) {
+      continue;
+    }
+
+    const row: Record<string, string> = {};
+    columns.forEach((column, index) => {
+      if (column) {
+        row[column] = cells[index] ?? "";
+      }
+    });
+
+    const parseMacro = (column: string, unit: string, label: string) =>
+      parseMacroCell(
+        row[column] ?? "",
+        unit,
+        `${label} in ${meal} row "${row.item}" on ${date}`
+      );
+
+    items.push({
+      date,
+      meal: meal.toLowerCase() as Lowercase<DietMeal>,
+      timestamp: row.timestamp ?? "",
+      item: row.item ?? "",
+      quantity: row.quantity ?? "",
+      calories: parseMacro("calories", "kcal", "calories"),
+      carbs_g: parseMacro("carbs_g", "g", "carbs"),
+      protein_g: parseMacro("protein_g", "g", "protein"),
+      fat_g: parseMacro("fat_g", "g", "fat"),
+      note: row.note || null,
+    });
+  }
+
+  return items;
+}
+
+/**
+ * Adds up the meal table rows of a diet log, rounded the way the frontmatter
+ * records totals (whole kcal and one decimal for grams)
+ */
+function sumDietLogItems(markdown: string): DietMacroEntry {
+  const { date } = parseDietLogFrontmatter(markdown);
+  const items = parseDietLogItems(markdown);
+  const sum = (field: DietTotalField) =>
+    items.reduce((total, item) => total + item[field], 0);
+
+  return {
+    date,
+    calories: Math.round(sum("calories")),
+    carbs_g: Number(sum("carbs_g").toFixed(1)),
+    protein_g: Number(sum("protein_g").toFixed(1)),
+    fat_g: Number(sum("fat_g").toFixed(1)),
+  };
+}
+
+/**
+ * Compares a diet log's frontmatter totals with the sum of its meal tables
+ */
+function getDietLogMismatches(markdown: string): DietLogMismatch[] {
+  const recorded = parseDietLogFrontmatter(markdown);
+  const computed = sumDietLogItems(markdown);
+
+  return dietTotalFields
+    .filter((field) => recorded[field] !== computed[field])
+    .map((field) => ({
+      field,
+      recorded: recorded[field],
+      computed: computed[field],
+    }));
+}
+
+function formatDietLogMismatches(mismatches: DietLogMismatch[]): string {
+  return mismatches
+    .map(
+      ({ field, recorded, computed }) =>
+        `${field} is ${recorded}, rows add up to ${computed}`
+    )
+    .join("; ");
+}
+
+async function readDietLogs(
+  logsDir: string
+): Promise<{ fileName: string; markdown: string }[]> {
+  const glob = new Bun.Glob("*_diet_log.md");
+  const logs: { fileName: string; markdown: string }[] = [];
+
+  for await (const fileName of glob.scan(logsDir)) {
+    logs.push({
+      fileName,
+      markdown: await Bun.file(`${logsDir}/${fileName}`).text(),
+    });
+  }
+
+  return logs.sort((a, b) => a.fileName.localeCompare(b.fileName));
+}
+
+/**
+ * Writes daily macro totals, scored against the configured targets, and
+ * their weekly and monthly adherence next to them. Logs whose totals don't
+ * match their meal tables are left out until `diet verify --fix` or a manual
+ * correction settles which value is right.
+ */
 async function generateDietMacrosIndex({
-  logsDir = "./vault/diet-logs",
+  logsDir = dietLogsPath,
   savePath = "./vault/macros.json",
+  adherenceSavePath = "./vault/macros-adherence.json",
+  targets = config.macroTargets,
+  measurementsPath = defaultMeasurementsPath,
 }: GenerateDietMacrosIndexOptions = {}) {
-  const glob = new Bun.Glob("*_diet_log.md");
   const entries: DietMacroEntry[] = [];
+  const skipped: string[] = [];
 
-  for await (const fileName of glob.scan(logsDir)) {
-    const markdown = await Bun.file(`${logsDir}/${fileName}`).text();
+  for (const { fileName, markdown } of await readDietLogs(logsDir)) {
+    const mismatches = getDietLogMismatches(markdown);
+    if (mismatches.length > 0) {
+      skipped.push(`${fileName} (${formatDietLogMismatches(mismatches)})`);
+      continue;
+    }
     entries.push(parseDietLogFrontmatter(markdown));
   }
 
+  if (skipped.length > 0) {
+    console.warn(
+      `Left out diet logs whose totals don't match their meal tables: ${skipped.join(", ")}. Run \`diet verify --fix\` to recompute them.`
+    );
+  }
+
   entries.sort((a, b) => a.date.localeCompare(b.date));
 
+  const measurements =
+    targets.length > 0 ? await readMeasurements(measurementsPath) : [];
+  const scored = scoreMacroEntries(entries, targets, measurements);
   const index: DietMacroIndex = Object.fromEntries(
-    entries.map((entry) => [entry.date, entry])
+    scored.map((entry) => [entry.date, entry])
   );
 
   await Bun.write(savePath, `${JSON.stringify(index, null, 2)}\n`);
+  await Bun.write(
+    adherenceSavePath,
+    `${JSON.stringify(buildMacroAdherenceSummary(scored), null, 2)}\n`
+  );
 
   return {
     savePath,
+    adherenceSavePath,
     count: entries.length,
+    skipped,
     msg: "Diet macros index generated",
   };
 }
 
+/**
+ * Writes every food entry from the diet logs to one list, ordered by date
+ * and then by meal as it appears in the log
+ */
+async function generateDietItemsIndex({
+  logsDir = dietLogsPath,
+  savePath = "./vault/diet-items.json",
+}: GenerateDietItemsIndexOptions = {}) {
+  const items = (await readDietLogs(logsDir))
+    .flatMap(({ markdown }) => parseDietLogItems(markdown))
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  await Bun.write(savePath, `${JSON.stringify(items, null, 2)}\n`);
+
+  return {
+    savePath,
+    count: items.length,
+    msg: "Diet items index generated",
+  };
+}
+
+/**
+ * Checks every diet log's frontmatter totals against its meal tables. With
+ * `fix`, mismatched totals are rewritten from the rows.
+ */
+async function verifyDietLogs({
+  logsDir = dietLogsPath,
+  fix = false,
+}: VerifyDietLogsOptions = {}) {
+  const logs = await readDietLogs(logsDir);
+  const results: {
+    fileName: string;
+    mismatches: DietLogMismatch[];
+    fixed: boolean;
+  }[] = [];
+
+  for (const { fileName, markdown } of logs) {
+    const mismatches = getDietLogMismatches(markdown);
+    if (mismatches.length === 0) {
+      continue;
+    }
+
+    if (fix) {
+      await Bun.write(
+        `${logsDir}/${fileName}`,
+        setDietLogTotals(markdown, sumDietLogItems(markdown))
+      );
+    }
+    results.push({ fileName, mismatches, fixed: fix });
+  }
+
+  return { checked: logs.length, inconsistent: results };
+}
+
+const DietLogEntrySchema = z.object({
+  date: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must use YYYY-MM-DD format.")
+    .optional(),
+  meal: z
+    .string()
+    .transform((meal) => meal.trim().toLowerCase())
+    .pipe(z.enum(["breakfast", "lunch", "snacks", "dinner"])),
+  item: z.string().min(1),
+  quantity: z.string().min(1),
+  calories: nonnegativeNumberField(),
+  carbs: nonnegativeNumberField(),
+  protein: nonnegativeNumberField(),
+  fat: nonnegativeNumberField(),
+  note: z.string().optional(),
+});
+
+type DietLogEntry = z.infer<typeof DietLogEntrySchema>;
+
+// Leaving out the macros looks the item up in the food library instead, so
+// "item: whey 62g" or an item of "whey" with a quantity of "62g" is enough
+const DietLogRequestSchema = DietLogEntrySchema.partial({
+  quantity: true,
+  calories: true,
+  carbs: true,
+  protein: true,
+  fat: true,
+})
+  .refine(
+    (entry) => {
+      const given = [
+        entry.calories,
+        entry.carbs,
+        entry.protein,
+        entry.fat,
+      ].filter((value) => value !== undefined).length;
+      return given === 0 || given === 4;
+    },
+    {
+      message:
+        "Give calories, carbs, protein and fat together, or none to use the food library",
+      path: ["calories"],
+    }
+  )
+  .refine(
+    (entry) => entry.calories === undefined || entry.quantity !== undefined,
+    { message: "Required when macros are given", path: ["quantity"] }
+  );
+
+type DietLogRequest = z.infer<typeof DietLogRequestSchema>;
+
+function getDietLogPath(date: string, logsDir = dietLogsPath): string {
+  return `${logsDir}/${date}_diet_log.md`;
+}
+
+/**
+ * Builds an empty diet log in the same layout as the hand-written ones
+ */
+function createDietLog(date: string): string {
+  return [
+    "---",
+    `date: ${date}`,
+    "diet_total_calories: 0",
+    "diet_total_carbs_g: 0.0",
+    "diet_total_protein_g: 0.0",
+    "diet_total_fat_g: 0.0",
+    "---",
+    "",
+    "# Diet log",
+    ...dietMeals.flatMap((meal) => ["", `## ${meal}`, "", DIET_TABLE_HEADER]),
+    "",
+  ].join("\n");
+}
+
+function escapeTableCell(value: string): string {
+  return value
+    .replace(/\|/g, "\\|")
+    .replace(/\s*\n\s*/g, " ")
+    .trim();
+}
+
+function formatDietLogRow(entry: DietLogEntry, timestamp: string): string {
+  return `| ${[
+    timestamp,
+    escapeTableCell(entry.item),
+    escapeTableCell(entry.quantity),
+    `${Math.round(entry.calories)} kcal`,
+    `${entry.carbs.toFixed(1)} g`,
+    `${entry.protein.toFixed(1)} g`,
+    `${entry.fat.toFixed(1)} g`,
+    escapeTableCell(entry.note ?? ""),
+  ].join(" | ")} |`;
+}
+
+/**
+ * Inserts a row after the last row of a meal's table
+ */
+function appendDietLogRow(
+  markdown: string,
+  meal: DietMeal,
+  row: string
+): string {
+  const lines = markdown.split("\n");
+  const headingIndex = lines.findIndex((line) => line.trim() === `## ${meal}`);
+
+  if (headingIndex === -1) {
+    throw new Error(`Diet log is missing the ${meal} section`);
+  }
+
+  let insertIndex = headingIndex + 1;
+  for (let index = headingIndex + 1; index < lines.length; index++) {
+    const line = lines[index].trim();
+    if (line.startsWith("#")) {
+      break;
+    }
+    if (line.startsWith("|")) {
+      insertIndex = index + 1;
+    }
+  }
+
+  lines.splice(insertIndex, 0, row);
+  return lines.join("\n");
+}
+
+function setDietLogTotals(markdown: string, totals: DietMacroEntry): string {
+  const values: Record<string, string> = {
+    diet_total_calories: String(Math.round(totals.calories)),
+    diet_total_carbs_g: totals.carbs_g.toFixed(1),
+    diet_total_protein_g: totals.protein_g.toFixed(1),
+    diet_total_fat_g: totals.fat_g.toFixed(1),
+  };
+
+  return markdown.replace(/^---\n[\s\S]*?\n---/, (frontmatter) =>
+    frontmatter.replace(/^(diet_total_\w+):.*$/gm, (line, field: string) =>
+      field in values ? `${field}: ${values[field]}` : line
+    )
+  );
+}
+
+/**
+ * Appends an entry to a diet log (creating it when missing) and recomputes
+ * the frontmatter totals from the meal tables
+ */
+function addDietLogEntry(
+  markdown: string | null,
+  entry: DietLogEntry & { date: string },
+  timestamp: string
+): string {
+  const log = markdown ?? createDietLog(entry.date);
+  const meal = dietMeals.find((name) => name.toLowerCase() === entry.meal)!;
+  const updated = appendDietLogRow(
+    log,
+    meal,
+    formatDietLogRow(entry, timestamp)
+  );
+
+  return setDietLogTotals(updated, sumDietLogItems(updated));
+}
+
+/**
+ * Parses a DietLog issue body. The date defaults to today.
+ */
+function parseDietLogEntry(body: string) {
+  return parseIssueBody(body, DietLogRequestSchema, "diet log entry");
+}
+
+/**
+ * Fills in an entry given without macros from the food library, with the
+ * scaling written to the note ahead of any note of our own
+ */
+async function resolveDietLogEntry(
+  entry: DietLogRequest,
+  reader: ReaderFunction
+): Promise<DietLogEntry> {
+  const { quantity, calories, carbs, protein, fat } = entry;
+
+  if (
+    quantity !== undefined &&
+    calories !== undefined &&
+    carbs !== undefined &&
+    protein !== undefined &&
+    fat !== undefined
+  ) {
+    return { ...entry, quantity, calories, carbs, protein, fat };
+  }
+
+  const food = resolveFoodEntry(
+    quantity ? `${entry.item} ${quantity}` : entry.item,
+    await readFoods(reader)
+  );
+
+  return {
+    ...entry,
+    item: food.name,
+    quantity: food.quantity,
+    calories: food.calories,
+    carbs: food.carbs_g,
+    protein: food.protein_g,
+    fat: food.fat_g,
+    note: [food.note, entry.note].filter(Boolean).join(" "),
+  };
+}
+
+/**
+ * Timestamp for a new row. A backdated row keeps the time of day it was
+ * logged but moves to its own date, so it doesn't show up in the items index
+ * as eaten on the day it was typed in.
+ */
+function getDietLogRowTimestamp(
+  date: string,
+  loggedAt: string,
+  today: string
+): string {
+  const timestamp = loggedAt.replace(/\.\d{3}Z$/, "Z");
+  return date === today ? timestamp : `${date}${timestamp.slice(10)}`;
+}
+
+/**
+ * Adds an entry from a DietLog issue to that day's diet log and confirms it
+ * with a comment
+ */
+async function ingestDietLogEntry(
+  request: DietLogRequest,
+  writer: WriterFunction,
+  reader: ReaderFunction,
+  commenter?: CommentFunction,
+  logsDir = dietLogsPath,
+  loggedAt = new Date().toISOString()
+): Promise<{ success: boolean; message: string }> {
+  const today = getCurrentDate();
+  const date = request.date ?? today;
+  const path = getDietLogPath(date, logsDir);
+
+  let markdown: string | null;
+  try {
+    markdown = await reader(path);
+  } catch (error) {
+    // No log for this day yet, start from the template
+    markdown = null;
+  }
+
+  let entry: DietLogEntry;
+  let updated: string;
+  try {
+    entry = await resolveDietLogEntry(request, reader);
+    updated = addDietLogEntry(
+      markdown,
+      { ...entry, date },
+      getDietLogRowTimestamp(date, loggedAt, today)
+    );
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    if (commenter) {
+      await commenter(`❌ ${errorMsg}`);
+    }
+    return { success: false, message: errorMsg };
+  }
+
+  await writer(path, updated);
+
+  const totals = parseDietLogFrontmatter(updated);
+  const message = `✅ Added ${entry.item} to ${entry.meal} on ${date}. Day total: ${totals.calories} kcal, ${totals.protein_g.toFixed(1)} g protein`;
+  if (commenter) {
+    await commenter(message);
+  }
+
+  return { success: true, message };
+}
+
+/**
+ * Adds an entry given on the command line to that day's diet log
+ */
+async function addDietLog(
+  fields: Record<string, unknown>,
+  logsDir = dietLogsPath,
+  loggedAt?: string
+): Promise<{ message: string }> {
+  const validationResult = DietLogRequestSchema.safeParse(fields);
+  if (!validationResult.success) {
+    throw new Error(
+      `Validation failed: ${validationResult.error.issues
+        .map((err) => `${err.path.join(".")}: ${err.message}`)
+        .join("; ")}`
+    );
+  }
+
+  const result = await ingestDietLogEntry(
+    validationResult.data,
+    writeVaultFile,
+    readVaultFile,
+    undefined,
+    logsDir,
+    loggedAt
+  );
+  if (!result.success) {
+    throw new Error(result.message);
+  }
+
+  return result;
+}
+
 export {
+  DietItem,
+  DietLogEntry,
+  DietLogMismatch,
+  DietLogRequest,
   DietMacroEntry,
   DietMacroIndex,
+  addDietLog,
+  addDietLogEntry,
+  createDietLog,
+  dietLogsPath,
+  formatDietLogMismatches,
+  generateDietItemsIndex,
   generateDietMacrosIndex,
+  getDietLogMismatches,
+  ingestDietLogEntry,
+  parseDietLogEntry,
   parseDietLogFrontmatter,
+  parseDietLogItems,
+  sumDietLogItems,
+  verifyDietLogs,
 };
@@ -0,0 +1,131 @@
+type WriterFunction = (path: string, content: string) => Promise<void>;
+type ReaderFunction = (path: string) => Promise<string>;
+
+export type FileChangeSummary = {
+  path: string;
+  added: number;
+  replaced: number;
+  unchanged: number;
+};
+
+export type DryRun = {
+  writer: WriterFunction;
+  reader: ReaderFunction;
+  summarize: () => FileChangeSummary[];
+};
+
+/**
+ * Lists the entries of a vault file: the rows of a healthkit file, the items
+ * of a list file, and the whole document for anything else
+ */
+function getEntries(content: string | null): string[] {
+  if (content === null || content.trim() === '') {
+    return [];
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch (error) {
+    return [content];
+  }
+
+  const entries =
+    parsed && typeof parsed === 'object' && 'metrics' in parsed
+      ? (parsed as { metrics: unknown }).metrics
+      : parsed;
+
+  return Array.isArray(entries)
+    ? entries.map((entry) => JSON.stringify(entry))
+    : [JSON.stringify(entries)];
+}
+
+/**
+ * Counts entries by comparing a file before and after a write. Entries that
+ * disappeared were replaced by dedup; new entries beyond those replacements
+ * were added.
+ */
+export function summarizeFileChange(
+  path: string,
+  before: string | null,
+  after: string
+): FileChangeSummary {
+  const remaining = new Map<string, number>();
+  for (const entry of getEntries(before)) {
+    remaining.set(entry, (remaining.get(entry) ?? 0) + 1);
+  }
+
+  let unchanged = 0;
+  let created = 0;
+  for (const entry of getEntries(after)) {
+    const count = remaining.get(entry) ?? 0;
+    if (count > 0) {
+      remaining.set(entry, count - 1);
+      unchanged++;
+    } else {
+      created++;
+    }
+  }
+
+  const replaced = [...remaining.values()].reduce(
+    (total, count) => total + count,
+    0
+  );
+
+  return {
+    path,
+    added: Math.max(created - replaced, 0),
+    replaced,
+    unchanged,
+  };
+}
+
+/**
+ * Creates an in-memory writer that records what a pipeline would write. Reads
+ * see staged content first so later steps observe earlier writes.
+ */
+export function createDryRun(reader: ReaderFunction): DryRun {
+  const staged = new Map<string, string>();
+  const originals = new Map<string, string | null>();
+
+  const writer = async (path: string, content: string) => {
+    if (!originals.has(path)) {
+      originals.set(path, await reader(path).catch(() => null));
+    }
+    staged.set(path, content);
+  };
+
+  const dryRunReader = async (path: string) => {
+    const content = staged.get(path);
+    return content === undefined ? reader(path) : content;
+  };
+
+  const summarize = () =>
+    [...staged.entries()].map(([path, content]) =>
+      summarizeFileChange(path, originals.get(path) ?? null, content)
+    );
+
+  return { writer, reader: dryRunReader, summarize };
+}
+
+/**
+ * Formats file change summaries as a markdown table
+ */
+export function formatDryRunSummary(changes: FileChangeSummary[]): string {
+  if (changes.length === 0) {
+    return '🧪 Dry run: no files would change';
+  }
+
+  const rows = changes.map(
+    (change) =>
+      `| ${change.path} | ${change.added} | ${change.replaced} | ${change.unchanged} |`
+  );
+
+  return [
+    '🧪 Dry run: no files were written',
+    '',
+    '| File | Added | Replaced | Unchanged |',
+    '| --- | ---: | ---: | ---: |',
+    ...rows,
+  ].join('\n');
+}
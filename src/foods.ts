@@ -0,0 +1,254 @@
+import { z } from 'zod';
+
+type ReaderFunction = (path: string) => Promise<string>;
+
+export const foodsPath = process.env.FOODS_PATH || './vault/foods.json';
+
+const FoodMacrosSchema = z.object({
+  calories: z.number().nonnegative(),
+  carbs_g: z.number().nonnegative(),
+  protein_g: z.number().nonnegative(),
+  fat_g: z.number().nonnegative(),
+});
+
+/**
+ * A food in vault/foods.json. Macros are given per 100 g, per 100 ml or per
+ * serving (e.g. one piece). `units` converts household measures like a cup or
+ * a scoop into grams, or millilitres for foods measured per 100 ml.
+ */
+const FoodSchema = z
+  .object({
+    name: z.string().min(1),
+    aliases: z.array(z.string().min(1)).default([]),
+    per100g: FoodMacrosSchema.optional(),
+    per100ml: FoodMacrosSchema.optional(),
+    perServing: FoodMacrosSchema.extend({ unit: z.string().min(1) }).optional(),
+    units: z.record(z.string(), z.number().positive()).default({}),
+  })
+  .refine((food) => food.per100g || food.per100ml || food.perServing, {
+    message: 'Needs per100g, per100ml or perServing macros',
+  })
+  .refine((food) => !(food.per100g && food.per100ml), {
+    message: 'Use either per100g or per100ml, not both',
+  });
+
+const FoodLibrarySchema = z.array(FoodSchema);
+
+export type FoodMacros = z.infer<typeof FoodMacrosSchema>;
+export type Food = z.infer<typeof FoodSchema>;
+
+export type ScaledFood = FoodMacros & {
+  name: string;
+  quantity: string;
+  note: string;
+};
+
+const UNIT_ALIASES: Record<string, string> = {
+  g: 'g',
+  gm: 'g',
+  gms: 'g',
+  gram: 'g',
+  grams: 'g',
+  ml: 'ml',
+  millilitre: 'ml',
+  millilitres: 'ml',
+  milliliter: 'ml',
+  milliliters: 'ml',
+  cups: 'cup',
+  pc: 'piece',
+  pcs: 'piece',
+  pieces: 'piece',
+  servings: 'serving',
+};
+
+// "62", "0.5", "1/2" or "1 1/2"
+const AMOUNT_PATTERN = String.raw`\d+\s+\d+\s*\/\s*\d+|\d+(?:\.\d+)?(?:\s*\/\s*\d+)?`;
+
+function parseAmount(text: string): number {
+  const normalized = text.replace(/\s*\/\s*/g, '/');
+  const [whole, fraction] = normalized.includes(' ')
+    ? normalized.split(/\s+/)
+    : ['0', normalized];
+  const [numerator, denominator = '1'] = fraction.split('/');
+
+  return Number(whole) + Number(numerator) / Number(denominator);
+}
+
+function normalizeUnit(unit: string): string {
+  const lower = unit.toLowerCase();
+  return UNIT_ALIASES[lower] ?? lower;
+}
+
+function formatMacros(macros: FoodMacros): string {
+  return `${macros.calories} kcal, ${macros.carbs_g} g carbs, ${macros.protein_g} g protein, ${macros.fat_g} g fat`;
+}
+
+function scaleMacros(macros: FoodMacros, factor: number): FoodMacros {
+  return {
+    calories: macros.calories * factor,
+    carbs_g: macros.carbs_g * factor,
+    protein_g: macros.protein_g * factor,
+    fat_g: macros.fat_g * factor,
+  };
+}
+
+/**
+ * Finds a food by name or alias, ignoring case
+ */
+export function findFood(foods: Food[], name: string): Food | undefined {
+  const wanted = name.trim().toLowerCase();
+  return foods.find((food) =>
+    [food.name, ...food.aliases].some(
+      (candidate) => candidate.toLowerCase() === wanted
+    )
+  );
+}
+
+/**
+ * Scales a food's macros to an amount in grams, millilitres, servings or one
+ * of its own units. Without a unit the amount counts servings, so "1/2 mango"
+ * is half of the mango's serving.
+ */
+export function scaleFood(
+  food: Food,
+  amountText: string,
+  rawUnit?: string
+): ScaledFood {
+  const amount = parseAmount(amountText);
+  const unit = rawUnit ? normalizeUnit(rawUnit) : undefined;
+  const base = food.per100g
+    ? { macros: food.per100g, unit: 'g' }
+    : food.per100ml
+      ? { macros: food.per100ml, unit: 'ml' }
+      : undefined;
+
+  const scaled = (
+    macros: FoodMacros,
+    factor: number,
+    per: string,
+    quantity: string,
+    to: string
+  ): ScaledFood => ({
+    name: food.name,
+    quantity,
+    note: `Scaled from foods.json ${per} values (${formatMacros(macros)}) to ${to}.`,
+    ...scaleMacros(macros, factor),
+  });
+
+  if (
+    food.perServing &&
+    (!unit || unit === 'serving' || unit === food.perServing.unit)
+  ) {
+    const quantity = `${amountText} ${food.perServing.unit}`;
+    return scaled(
+      food.perServing,
+      amount,
+      `per-${food.perServing.unit}`,
+      quantity,
+      quantity
+    );
+  }
+
+  if (!unit) {
+    throw new Error(
+      `${food.name} has no serving size, give a unit such as "${food.name} 100 ${base?.unit}"`
+    );
+  }
+
+  if (base && unit === base.unit) {
+    const quantity = `${amountText} ${unit}`;
+    return scaled(
+      base.macros,
+      amount / 100,
+      `per-100 ${base.unit}`,
+      quantity,
+      quantity
+    );
+  }
+
+  // "scoops" and "glasses" use the singular unit
+  const householdUnit = [
+    unit,
+    unit.replace(/s$/, ''),
+    unit.replace(/es$/, ''),
+  ].find((candidate) => food.units[candidate]);
+
+  if (base && householdUnit) {
+    const baseAmount = amount * food.units[householdUnit];
+    return scaled(
+      base.macros,
+      baseAmount / 100,
+      `per-100 ${base.unit}`,
+      `${amountText} ${householdUnit}`,
+      `${amountText} ${householdUnit} = ${Number(baseAmount.toFixed(1))} ${base.unit}`
+    );
+  }
+
+  throw new Error(`Can't measure ${food.name} in "${rawUnit}"`);
+}
+
+/**
+ * Looks up a short entry like "whey 62g", "milk 1 cup" or "1/2 mango" in the
+ * food library and scales its macros to the amount eaten
+ */
+export function resolveFoodEntry(text: string, foods: Food[]): ScaledFood {
+  const entry = text.trim();
+  const trailing = entry.match(
+    new RegExp(`^(.+?)\\s+(${AMOUNT_PATTERN})\\s*([a-z]+)?$`, 'i')
+  );
+  const leading = entry.match(new RegExp(`^(${AMOUNT_PATTERN})\\s*(.+)$`, 'i'));
+
+  if (trailing) {
+    const [, name, amount, unit] = trailing;
+    const food = findFood(foods, name);
+    if (food) {
+      return scaleFood(food, amount, unit);
+    }
+  }
+
+  if (leading) {
+    const [, amount, rest] = leading;
+    const food = findFood(foods, rest);
+    if (food) {
+      return scaleFood(food, amount);
+    }
+
+    const [unit, ...name] = rest.split(/\s+/);
+    const unitFood = findFood(foods, name.join(' '));
+    if (unitFood) {
+      return scaleFood(unitFood, amount, unit);
+    }
+  }
+
+  if (!trailing && !leading) {
+    throw new Error(`Add an amount to "${entry}", e.g. "${entry} 100g"`);
+  }
+
+  throw new Error(`No food in foods.json matches "${entry}"`);
+}
+
+/**
+ * Reads and validates the food library
+ */
+export async function readFoods(
+  reader: ReaderFunction,
+  path = foodsPath
+): Promise<Food[]> {
+  let content: string;
+  try {
+    content = await reader(path);
+  } catch (error) {
+    throw new Error(`No food library at ${path}`);
+  }
+
+  const validationResult = FoodLibrarySchema.safeParse(JSON.parse(content));
+  if (!validationResult.success) {
+    throw new Error(
+      `Invalid food library: ${validationResult.error.issues
+        .map((err) => `${err.path.join('.')}: ${err.message}`)
+        .join('; ')}`
+    );
+  }
+
+  return validationResult.data;
+}
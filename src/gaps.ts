@@ -0,0 +1,201 @@
+import config from '@src/config';
+import { dietLogsPath } from '@src/diet';
+import { readExistingData } from '@src/healthkit';
+import { listMetricDefinitions } from '@src/healthkit-metrics';
+import { measurementsPath } from '@src/measurements';
+import {
+  addDaysToIsoDate,
+  getCurrentDate,
+  getHealthKitLocalDate,
+} from '@src/time';
+import { readVaultFile } from '@src/vault-io';
+import { workoutsPath } from '@src/workouts';
+
+// A run of consecutive missing days, both ends inclusive
+type DateGap = {
+  start: string;
+  end: string;
+  days: number;
+};
+
+type StreamGaps = {
+  stream: string;
+  from: string;
+  to: string;
+  daysMissing: number;
+  longestGap: number;
+  // Consecutive days with data up to and including `to`
+  currentStreak: number;
+  gaps: DateGap[];
+};
+
+type FindDataGapsOptions = {
+  from?: string;
+  to?: string;
+  // Stream names, or "healthkit" for every healthkit file
+  streams?: string[];
+  dietLogsDir?: string;
+  workoutsFilePath?: string;
+  measurementsFilePath?: string;
+  healthkitDir?: string;
+};
+
+/**
+ * Lists the days between `from` and `to` with no entry, as runs of
+ * consecutive days. Without `from` the range starts at the first entry, so a
+ * stream isn't blamed for days before it was started.
+ */
+function findGaps(
+  stream: string,
+  dates: string[],
+  to: string,
+  from?: string
+): StreamGaps | null {
+  const present = new Set(dates);
+  const start = from ?? [...present].sort()[0];
+
+  if (!start || start > to) {
+    return null;
+  }
+
+  const gaps: DateGap[] = [];
+  let currentStreak = 0;
+  for (let date = start; date <= to; date = addDaysToIsoDate(date, 1)) {
+    if (present.has(date)) {
+      currentStreak++;
+      continue;
+    }
+
+    currentStreak = 0;
+    const last = gaps.at(-1);
+    if (last && addDaysToIsoDate(last.end, 1) === date) {
+      last.end = date;
+      last.days++;
+    } else {
+      gaps.push({ start: date, end: date, days: 1 });
+    }
+  }
+
+  return {
+    stream,
+    from: start,
+    to,
+    daysMissing: gaps.reduce((total, gap) => total + gap.days, 0),
+    longestGap: Math.max(0, ...gaps.map((gap) => gap.days)),
+    currentStreak,
+    gaps,
+  };
+}
+
+// A stream without a file has no data yet; an unreadable file is an error
+async function readJsonDates(path: string): Promise<string[]> {
+  if (!(await Bun.file(path).exists())) {
+    return [];
+  }
+
+  const entries = JSON.parse(await readVaultFile(path)) as { date: string }[];
+  return entries.map((entry) => entry.date);
+}
+
+async function readDietLogDates(logsDir: string): Promise<string[]> {
+  const glob = new Bun.Glob('*_diet_log.md');
+  const dates: string[] = [];
+
+  for await (const fileName of glob.scan(logsDir)) {
+    dates.push(fileName.slice(0, 10));
+  }
+
+  return dates;
+}
+
+/**
+ * Reads the dates present in each stream: diet logs, workouts, measurements
+ * and one stream per healthkit file (named after it, e.g. healthkit/steps)
+ */
+async function readStreamDates({
+  dietLogsDir = dietLogsPath,
+  workoutsFilePath = workoutsPath,
+  measurementsFilePath = measurementsPath,
+  healthkitDir = config.healthkitFolderPath,
+}: FindDataGapsOptions = {}): Promise<Map<string, string[]>> {
+  const streams = new Map<string, string[]>([
+    ['diet', await readDietLogDates(dietLogsDir)],
+    ['workouts', await readJsonDates(workoutsFilePath)],
+    ['measurements', await readJsonDates(measurementsFilePath)],
+  ]);
+
+  for (const definition of listMetricDefinitions()) {
+    const { metrics } = await readExistingData(
+      `${healthkitDir}/${definition.fileName}`,
+      readVaultFile,
+      definition
+    );
+    streams.set(
+      `healthkit/${definition.fileName.replace(/\.json$/, '')}`,
+      metrics.map((row) => getHealthKitLocalDate(row.date))
+    );
+  }
+
+  return streams;
+}
+
+function matchesStream(stream: string, filters: string[]): boolean {
+  return filters.some(
+    (filter) => stream === filter || stream.startsWith(`${filter}/`)
+  );
+}
+
+async function findDataGaps(
+  options: FindDataGapsOptions = {}
+): Promise<StreamGaps[]> {
+  const { from, to = getCurrentDate(), streams: filters } = options;
+
+  if (from && from > to) {
+    throw new Error(`--from ${from} is after --to ${to}`);
+  }
+
+  const streams = await readStreamDates(options);
+
+  const names = [...streams.keys()];
+  const unknown = (filters ?? []).filter(
+    (filter) => !names.some((stream) => matchesStream(stream, [filter]))
+  );
+  if (unknown.length > 0) {
+    throw new Error(
+      `Unknown stream: ${unknown.join(', ')}. Expected one of ${names.join(', ')}`
+    );
+  }
+
+  return [...streams]
+    .filter(([stream]) => !filters || matchesStream(stream, filters))
+    .map(([stream, dates]) => findGaps(stream, dates, to, from))
+    .filter((result): result is StreamGaps => result !== null);
+}
+
+function formatGap(gap: DateGap): string {
+  return gap.days === 1 ? gap.start : `${gap.start} → ${gap.end} (${gap.days})`;
+}
+
+function formatGapsTable(results: StreamGaps[]): string {
+  return [
+    '| Stream | From | To | Missing | Longest gap | Current streak | Gaps |',
+    '| --- | --- | --- | ---: | ---: | ---: | --- |',
+    ...results.map(
+      (result) =>
+        `| ${result.stream} | ${result.from} | ${result.to} | ${
+          result.daysMissing
+        } | ${result.longestGap} | ${result.currentStreak} | ${
+          result.gaps.map(formatGap).join(', ') || '-'
+        } |`
+    ),
+  ].join('\n');
+}
+
+export {
+  DateGap,
+  StreamGaps,
+  findDataGaps,
+  findGaps,
+  formatGapsTable,
+  readStreamDates,
+};
@@ -0,0 +1,193 @@
+import { readFileSync } from 'node:fs';
+
+/**
+ * A city from the bundled gazetteer: the GeoNames cities15000 extract in
+ * src/data/cities.tsv (every place with at least 15,000 people) plus the few
+ * places in src/data/extra-cities.tsv that it leaves out or names
+ * differently. `country` is the full name from countries.tsv.
+ */
+export type GazetteerCity = {
+  name: string;
+  aliases: string[];
+  latitude: number;
+  longitude: number;
+  countryCode: string;
+  country: string;
+  timezone: string;
+};
+
+export type NearestCity = { city: GazetteerCity; distanceKm: number };
+
+type Country = { code: string; name: string; aliases: string[] };
+
+const EARTH_RADIUS_KM = 6371;
+
+// Farther than this from every known city means the gazetteer has a gap
+export const DEFAULT_MAX_DISTANCE_KM = 50;
+
+function readTsv(fileName: string): string[][] {
+  return readFileSync(new URL(`./data/${fileName}`, import.meta.url), 'utf8')
+    .split('\n')
+    .filter((line) => line.trim() !== '' && !line.startsWith('#'))
+    .map((line) => line.split('\t'));
+}
+
+function splitAliases(value: string | undefined): string[] {
+  return (value ?? '')
+    .split(',')
+    .map((alias) => alias.trim())
+    .filter(Boolean);
+}
+
+let countries: Map<string, Country> | null = null;
+let countryCodes: Map<string, string> | null = null;
+let extraCities: GazetteerCity[] | null = null;
+let cities: GazetteerCity[] | null = null;
+let cityNames: Map<string, string> | null = null;
+
+function getCountries(): Map<string, Country> {
+  countries ??= new Map(
+    readTsv('countries.tsv').map(([code, name, aliases]) => [
+      code,
+      { code, name, aliases: splitAliases(aliases) },
+    ])
+  );
+  return countries;
+}
+
+// Country names and alternate names → country code
+function getCountryCodes(): Map<string, string> {
+  countryCodes ??= new Map(
+    [...getCountries().values()].flatMap((country) =>
+      [country.name, ...country.aliases].map((name): [string, string] => [
+        name,
+        country.code,
+      ])
+    )
+  );
+  return countryCodes;
+}
+
+function readCities(fileName: string): GazetteerCity[] {
+  return readTsv(fileName).map(
+    ([name, aliases, latitude, longitude, countryCode, timezone]) => ({
+      name,
+      aliases: splitAliases(aliases),
+      latitude: Number(latitude),
+      longitude: Number(longitude),
+      countryCode,
+      country: getCountries().get(countryCode)?.name ?? countryCode,
+      timezone,
+    })
+  );
+}
+
+function getExtraCities(): GazetteerCity[] {
+  extraCities ??= readCities('extra-cities.tsv');
+  return extraCities;
+}
+
+function getCities(): GazetteerCity[] {
+  cities ??= [...getExtraCities(), ...readCities('cities.tsv')];
+  return cities;
+}
+
+/**
+ * Maps "<country code>\t<name>" to a gazetteer city name. The extra cities'
+ * alternate names come first, then every city's own name, then the GeoNames
+ * alternate names, which are in population order so an ambiguous one means
+ * the bigger city.
+ */
+function getCityNames(): Map<string, string> {
+  if (cityNames) {
+    return cityNames;
+  }
+
+  const names = new Map<string, string>();
+  const add = (city: GazetteerCity, name: string) => {
+    const key = `${city.countryCode}\t${name}`;
+    if (!names.has(key)) {
+      names.set(key, city.name);
+    }
+  };
+
+  for (const city of getExtraCities()) {
+    city.aliases.forEach((alias) => add(city, alias));
+  }
+  for (const city of getCities()) {
+    add(city, city.name);
+  }
+  for (const city of getCities()) {
+    city.aliases.forEach((alias) => add(city, alias));
+  }
+
+  cityNames = names;
+  return cityNames;
+}
+
+/**
+ * Great-circle distance between two coordinates
+ */
+export function getDistanceKm(
+  latitudeA: number,
+  longitudeA: number,
+  latitudeB: number,
+  longitudeB: number
+): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const deltaLatitude = toRadians(latitudeB - latitudeA);
+  const deltaLongitude = toRadians(longitudeB - longitudeA);
+  const a =
+    Math.sin(deltaLatitude / 2) ** 2 +
+    Math.cos(toRadians(latitudeA)) *
+      Math.cos(toRadians(latitudeB)) *
+      Math.sin(deltaLongitude / 2) ** 2;
+
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+}
+
+/**
+ * Finds the closest gazetteer city to a coordinate, or null when none is
+ * within `maxDistanceKm`
+ */
+export function findNearestCity(
+  latitude: number,
+  longitude: number,
+  maxDistanceKm: number = DEFAULT_MAX_DISTANCE_KM
+): NearestCity | null {
+  let nearest: NearestCity | null = null;
+
+  for (const city of getCities()) {
+    const distanceKm = getDistanceKm(
+      latitude,
+      longitude,
+      city.latitude,
+      city.longitude
+    );
+    if (!nearest || distanceKm < nearest.distanceKm) {
+      nearest = { city, distanceKm };
+    }
+  }
+
+  return nearest && nearest.distanceKm <= maxDistanceKm ? nearest : null;
+}
+
+/**
+ * Maps alternate names such as "Delhi" or "UAE" to the gazetteer's name.
+ * Matching is exact, and city names only apply within their own country so
+ * the two Cambridges stay apart. Unknown names are returned unchanged.
+ */
+export function normalizePlace(place: { city: string; country: string }): {
+  city: string;
+  country: string;
+} {
+  const countryCode = getCountryCodes().get(place.country);
+  if (!countryCode) {
+    return { city: place.city, country: place.country };
+  }
+
+  return {
+    city: getCityNames().get(`${countryCode}\t${place.city}`) ?? place.city,
+    country: getCountries().get(countryCode)!.name,
+  };
+}
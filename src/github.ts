@@ -1,4 +1,222 @@
-import axios from "axios";
+import axios, { AxiosError, AxiosResponse } from "axios";
+
+// Marks the comment that upsertStatusComment keeps editing
+export const STATUS_COMMENT_MARKER = "<!-- state-of-being:status -->";
+
+export type IssueCloseReason = "completed" | "not_planned";
+
+export type IssueOutcomeLabel = "ingested" | "partial" | "rejected";
+
+export type GitHubClientOptions = {
+  token: string;
+  repository: string;
+  issueNumber: number;
+  baseUrl?: string;
+  maxRetries?: number;
+  retryDelayMs?: number;
+  maxRetryDelayMs?: number;
+  sleep?: (ms: number) => Promise<void>;
+};
+
+export type GitHubIssueClient = {
+  comment: (body: string) => Promise<void>;
+  upsertStatusComment: (body: string) => Promise<void>;
+  addLabels: (labels: string[]) => Promise<void>;
+  removeLabel: (label: string) => Promise<void>;
+  close: (reason?: IssueCloseReason) => Promise<void>;
+};
+
+/**
+ * Raised when a GitHub API request fails for good, after any retries
+ */
+export class GitHubRequestError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number | null
+  ) {
+    super(message);
+    this.name = "GitHubRequestError";
+  }
+}
+
+type IssueComment = { id: number; body?: string };
+
+function defaultSleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function isRateLimited(response: AxiosResponse): boolean {
+  return (
+    response.status === 429 ||
+    (response.status === 403 &&
+      (response.headers["x-ratelimit-remaining"] === "0" ||
+        response.headers["retry-after"] !== undefined))
+  );
+}
+
+/**
+ * How long to wait before retrying, or null when the failure is permanent.
+ * Rate limits are honoured through retry-after and x-ratelimit-reset; server
+ * and network errors back off exponentially.
+ */
+function getRetryDelay(
+  error: AxiosError,
+  attempt: number,
+  retryDelayMs: number
+): number | null {
+  const response = error.response;
+
+  if (response && isRateLimited(response)) {
+    const retryAfter = Number(response.headers["retry-after"]);
+    if (Number.isFinite(retryAfter)) {
+      return retryAfter * 1000;
+    }
+
+    const reset = Number(response.headers["x-ratelimit-reset"]);
+    if (Number.isFinite(reset)) {
+      return Math.max(reset * 1000 - Date.now(), 0);
+    }
+
+    return retryDelayMs * 2 ** attempt;
+  }
+
+  if (!response || response.status >= 500) {
+    return retryDelayMs * 2 ** attempt;
+  }
+
+  return null;
+}
+
+/**
+ * Creates a client for the issue a processor is handling. Requests are
+ * retried on rate limits, server errors and network failures; anything else
+ * throws a GitHubRequestError.
+ */
+export function createGitHubClient({
+  token,
+  repository,
+  issueNumber,
+  baseUrl = "https://api.github.com",
+  maxRetries = 3,
+  retryDelayMs = 1000,
+  maxRetryDelayMs = 60_000,
+  sleep = defaultSleep,
+}: GitHubClientOptions): GitHubIssueClient {
+  const [owner, repo] = repository.split("/");
+  const repoUrl = `${baseUrl}/repos/${owner}/${repo}`;
+  const issueUrl = `${repoUrl}/issues/${issueNumber}`;
+  let statusCommentId: number | null = null;
+
+  async function request<T>(
+    method: "get" | "post" | "patch" | "delete",
+    url: string,
+    data?: unknown
+  ): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const response = await axios.request<T>({
+          method,
+          url,
+          data,
+          headers: {
+            Authorization: `token ${token}`,
+            Accept: "application/vnd.github.v3+json",
+          },
+        });
+        return response.data;
+      } catch (error) {
+        if (!axios.isAxiosError(error)) {
+          throw error;
+        }
+
+        const delay = getRetryDelay(error, attempt, retryDelayMs);
+        if (delay === null || attempt >= maxRetries) {
+          throw new GitHubRequestError(
+            `GitHub ${method.toUpperCase()} ${url} failed: ${error.message}`,
+            error.response?.status ?? null
+          );
+        }
+
+        await sleep(Math.min(delay, maxRetryDelayMs));
+      }
+    }
+  }
+
+  async function findStatusCommentId(): Promise<number | null> {
+    const comments = await request<IssueComment[]>(
+      "get",
+      `${issueUrl}/comments?per_page=100`
+    );
+    const statusComment = comments.find((comment) =>
+      comment.body?.includes(STATUS_COMMENT_MARKER)
+    );
+    return statusComment?.id ?? null;
+  }
+
+  return {
+    async comment(body) {
+      await request("post", `${issueUrl}/comments`, { body });
+    },
+
+    async upsertStatusComment(body) {
+      const markedBody = `${STATUS_COMMENT_MARKER}\n${body}`;
+      statusCommentId ??= await findStatusCommentId();
+
+      if (statusCommentId === null) {
+        const created = await request<IssueComment>(
+          "post",
+          `${issueUrl}/comments`,
+          { body: markedBody }
+        );
+        statusCommentId = created.id;
+        return;
+      }
+
+      await request("patch", `${repoUrl}/issues/comments/${statusCommentId}`, {
+        body: markedBody,
+      });
+    },
+
+    async addLabels(labels) {
+      await request("post", `${issueUrl}/labels`, { labels });
+    },
+
+    async removeLabel(label) {
+      try {
+        await request(
+          "delete",
+          `${issueUrl}/labels/${encodeURIComponent(label)}`
+        );
+      } catch (error) {
+        // The label was not on the issue
+        if (!(error instanceof GitHubRequestError && error.status === 404)) {
+          throw error;
+        }
+      }
+    },
+
+    async close(reason = "completed") {
+      await request("patch", issueUrl, {
+        state: "closed",
+        state_reason: reason,
+      });
+    },
+  };
+}
+
+/**
+ * Picks the label describing how processing went. Partial results saved some
+ * data before failing, so they are told apart from outright rejections.
+ */
+export function getIssueOutcomeLabel(result: {
+  success: boolean;
+  partial?: boolean;
+}): IssueOutcomeLabel {
+  if (result.success) {
+    return "ingested";
+  }
+  return result.partial ? "partial" : "rejected";
+}
 
 /**
  * Creates a function that posts comments to a GitHub issue
@@ -8,21 +226,11 @@ export function createGitHubCommenter(
   repository: string,
   issueNumber: number
 ): (comment: string) => Promise<void> {
-  const [owner, repo] = repository.split("/");
-  const apiUrl = `https://api.github.com/repos/${owner}/${repo}/issues/${issueNumber}/comments`;
+  const client = createGitHubClient({ token, repository, issueNumber });
 
   return async (comment: string): Promise<void> => {
     try {
-      await axios.post(
-        apiUrl,
-        { body: comment },
-        {
-          headers: {
-            Authorization: `token ${token}`,
-            Accept: "application/vnd.github.v3+json",
-          },
-        }
-      );
+      await client.comment(comment);
     } catch (error) {
       // Log error but don't throw - we don't want comment failures to break ingestion
       console.error("Failed to post GitHub comment:", error);
@@ -0,0 +1,326 @@
+import { z } from 'zod';
+
+// Zod schemas for individual metric data types
+const HeartRateDataSchema = z.looseObject({
+  Max: z.number().optional(),
+  Avg: z.number().optional(),
+  Min: z.number().optional(),
+  source: z.string().optional(),
+  date: z.string(),
+});
+
+const HeartRateVariabilityDataSchema = z.looseObject({
+  qty: z.number(),
+  date: z.string(),
+});
+
+const RestingHeartRateDataSchema = z.looseObject({
+  qty: z.number(),
+  date: z.string(),
+});
+
+const SleepAnalysisDataSchema = z.object({
+  inBedStart: z.string().optional(),
+  awake: z.number().optional(),
+  source: z.string().optional(),
+  sleepStart: z.string().optional(),
+  totalSleep: z.number().optional(),
+  sleepEnd: z.string().optional(),
+  date: z.string(),
+  deep: z.number().optional(),
+  rem: z.number().optional(),
+  inBedEnd: z.string().optional(),
+  inBed: z.number().optional(),
+  core: z.number().optional(),
+  asleep: z.number().optional(),
+});
+
+const BodyTemperatureDataSchema = z.looseObject({
+  date: z.string(),
+  qty: z.number(),
+});
+
+// Shared shape for single-value quantity metrics (steps, energy, weight, ...)
+const QuantityDataSchema = z.looseObject({
+  qty: z.number(),
+  source: z.string().optional(),
+  date: z.string(),
+});
+
+type MetricDataSchema = z.ZodObject<any>;
+
+/**
+ * How several rows of the same metric on the same day combine into one value
+ */
+export type MetricAggregation = {
+  fields: string[];
+  combine: 'sum' | 'mean';
+};
+
+/**
+ * Everything the pipeline needs to know about a Health Auto Export metric
+ */
+export type MetricDefinition<
+  TName extends string = string,
+  TUnits extends string = string,
+  TSchema extends MetricDataSchema = MetricDataSchema,
+> = {
+  name: TName;
+  units: TUnits;
+  dataSchema: TSchema;
+  fileName: string;
+  // Row fields that identify a row. "date" compares the exact instant; "day"
+  // compares the local calendar day of `date`, for once-a-day metrics.
+  dedupKey: string[];
+  aggregation: MetricAggregation;
+};
+
+/**
+ * Shape of a metric as it arrives in a Health Auto Export payload
+ */
+export type MetricPayload<TDefinition extends MetricDefinition> = {
+  name: TDefinition['name'];
+  units: TDefinition['units'];
+  data: z.infer<TDefinition['dataSchema']>[];
+};
+
+export type QuantityMetricConfig = {
+  name: string;
+  units: string;
+  fileName: string;
+  combine?: MetricAggregation['combine'];
+};
+
+export function defineMetric<
+  TName extends string,
+  TUnits extends string,
+  TSchema extends MetricDataSchema,
+>(
+  definition: MetricDefinition<TName, TUnits, TSchema>
+): MetricDefinition<TName, TUnits, TSchema> {
+  return definition;
+}
+
+/**
+ * Defines a metric stored as plain {qty, source, date} rows
+ */
+export function defineQuantityMetric<
+  TName extends string,
+  TUnits extends string,
+>({
+  name,
+  units,
+  fileName,
+  combine = 'mean',
+}: QuantityMetricConfig & { name: TName; units: TUnits }) {
+  return defineMetric({
+    name,
+    units,
+    dataSchema: QuantityDataSchema,
+    fileName,
+    dedupKey: ['date', 'source'],
+    aggregation: { fields: ['qty'], combine },
+  });
+}
+
+export const heartRateMetric = defineMetric({
+  name: 'heart_rate',
+  units: 'count/min',
+  dataSchema: HeartRateDataSchema,
+  fileName: 'hr.json',
+  dedupKey: ['date', 'source'],
+  aggregation: { fields: ['Avg', 'Min', 'Max'], combine: 'mean' },
+});
+
+export const heartRateVariabilityMetric = defineMetric({
+  name: 'heart_rate_variability',
+  units: 'ms',
+  dataSchema: HeartRateVariabilityDataSchema,
+  fileName: 'hrv.json',
+  dedupKey: ['date', 'source'],
+  aggregation: { fields: ['qty'], combine: 'mean' },
+});
+
+export const sleepAnalysisMetric = defineMetric({
+  name: 'sleep_analysis',
+  units: 'hr',
+  dataSchema: SleepAnalysisDataSchema,
+  fileName: 'sleep.json',
+  dedupKey: ['day', 'source'],
+  aggregation: {
+    fields: ['totalSleep', 'deep', 'rem', 'core', 'awake'],
+    combine: 'sum',
+  },
+});
+
+export const bodyTemperatureMetric = defineMetric({
+  name: 'body_temperature',
+  units: 'degC',
+  dataSchema: BodyTemperatureDataSchema,
+  fileName: 'bodySurfaceTemp.json',
+  dedupKey: ['date', 'source'],
+  aggregation: { fields: ['qty'], combine: 'mean' },
+});
+
+export const restingHeartRateMetric = defineMetric({
+  name: 'resting_heart_rate',
+  units: 'count/min',
+  dataSchema: RestingHeartRateDataSchema,
+  fileName: 'restingHeartRate.json',
+  dedupKey: ['day', 'source'],
+  aggregation: { fields: ['qty'], combine: 'mean' },
+});
+
+const quantityMetrics = [
+  {
+    name: 'step_count',
+    units: 'count',
+    fileName: 'steps.json',
+    combine: 'sum',
+  },
+  {
+    name: 'active_energy',
+    units: 'kcal',
+    fileName: 'activeEnergy.json',
+    combine: 'sum',
+  },
+  {
+    name: 'basal_energy_burned',
+    units: 'kcal',
+    fileName: 'basalEnergy.json',
+    combine: 'sum',
+  },
+  {
+    name: 'respiratory_rate',
+    units: 'count/min',
+    fileName: 'respiratoryRate.json',
+  },
+  {
+    name: 'blood_oxygen_saturation',
+    units: '%',
+    fileName: 'bloodOxygen.json',
+  },
+  { name: 'vo2_max', units: 'ml/(kg·min)', fileName: 'vo2Max.json' },
+  {
+    name: 'walking_heart_rate_average',
+    units: 'count/min',
+    fileName: 'walkingHeartRateAverage.json',
+  },
+  { name: 'weight_body_mass', units: 'kg', fileName: 'weight.json' },
+  { name: 'body_fat_percentage', units: '%', fileName: 'bodyFat.json' },
+  { name: 'body_mass_index', units: 'count', fileName: 'bodyMassIndex.json' },
+  { name: 'lean_body_mass', units: 'kg', fileName: 'leanBodyMass.json' },
+  {
+    name: 'mindful_minutes',
+    units: 'min',
+    fileName: 'mindfulMinutes.json',
+    combine: 'sum',
+  },
+  {
+    name: 'flights_climbed',
+    units: 'count',
+    fileName: 'flightsClimbed.json',
+    combine: 'sum',
+  },
+  {
+    name: 'walking_running_distance',
+    units: 'km',
+    fileName: 'walkingRunningDistance.json',
+    combine: 'sum',
+  },
+  {
+    name: 'apple_exercise_time',
+    units: 'min',
+    fileName: 'exerciseTime.json',
+    combine: 'sum',
+  },
+  {
+    name: 'apple_stand_hour',
+    units: 'count',
+    fileName: 'standHours.json',
+    combine: 'sum',
+  },
+] satisfies QuantityMetricConfig[];
+
+const registry = new Map<string, MetricDefinition>();
+
+/**
+ * Adds a metric to the registry. Re-registering a name replaces the previous
+ * definition so local config can override the built-in ones.
+ */
+export function registerMetric(definition: MetricDefinition): void {
+  registry.set(definition.name, definition);
+}
+
+/**
+ * Removes a metric from the registry, returning whether it was registered
+ */
+export function unregisterMetric(name: string): boolean {
+  return registry.delete(name);
+}
+
+export function getMetricDefinition(name: string): MetricDefinition | null {
+  return registry.get(name) ?? null;
+}
+
+export function listMetricDefinitions(): MetricDefinition[] {
+  return [...registry.values()];
+}
+
+/**
+ * Builds the strict schema for a metric as it appears in an export payload
+ */
+export function createMetricSchema<TDefinition extends MetricDefinition>(
+  definition: TDefinition
+) {
+  return z.object({
+    name: z.literal(definition.name),
+    units: z.literal(definition.units),
+    data: z.array(definition.dataSchema),
+  });
+}
+
+/**
+ * Builds the schema for the vault file that stores a metric's rows
+ */
+export function createMetricFileSchema(definition: MetricDefinition) {
+  return z.object({
+    metrics: z.array(definition.dataSchema),
+  });
+}
+
+[
+  heartRateMetric,
+  heartRateVariabilityMetric,
+  sleepAnalysisMetric,
+  bodyTemperatureMetric,
+  restingHeartRateMetric,
+  ...quantityMetrics.map((metric) => defineQuantityMetric(metric)),
+].forEach((definition) => registerMetric(definition));
+
+// Inferred TypeScript types from Zod schemas
+export type HeartRateData = z.infer<typeof HeartRateDataSchema>;
+export type HeartRateVariabilityData = z.infer<
+  typeof HeartRateVariabilityDataSchema
+>;
+export type RestingHeartRateData = z.infer<typeof RestingHeartRateDataSchema>;
+export type SleepAnalysisData = z.infer<typeof SleepAnalysisDataSchema>;
+export type BodyTemperatureData = z.infer<typeof BodyTemperatureDataSchema>;
+export type QuantityData = z.infer<typeof QuantityDataSchema>;
+export type HealthMetricData =
+  | HeartRateData
+  | HeartRateVariabilityData
+  | RestingHeartRateData
+  | SleepAnalysisData
+  | BodyTemperatureData
+  | QuantityData;
+export type HeartRateMetric = MetricPayload<typeof heartRateMetric>;
+export type HeartRateVariabilityMetric = MetricPayload<
+  typeof heartRateVariabilityMetric
+>;
+export type SleepAnalysisMetric = MetricPayload<typeof sleepAnalysisMetric>;
+export type BodyTemperatureMetric = MetricPayload<typeof bodyTemperatureMetric>;
+export type RestingHeartRateMetric = MetricPayload<
+  typeof restingHeartRateMetric
+>;
+export type HealthMetric = MetricPayload<MetricDefinition>;
@@ -0,0 +1,153 @@
+import { z } from 'zod';
+import { getHealthKitLocalDate, parseHealthKitDate } from '@src/time';
+import { round } from '@src/utils';
+import {
+  mergeWorkouts,
+  RecordedWorkout,
+  serializeWorkouts,
+  Workout,
+} from '@src/workouts';
+
+type WriterFunction = (path: string, content: string) => Promise<void>;
+type ReaderFunction = (path: string) => Promise<string>;
+
+const QuantitySchema = z.looseObject({
+  qty: z.number(),
+  units: z.string().optional(),
+});
+
+// Health Auto Export workout. Older exports use activeEnergy and avgHeartRate,
+// newer ones activeEnergyBurned and a heartRate {min, avg, max} summary.
+const HealthKitWorkoutSchema = z.looseObject({
+  name: z.string(),
+  start: z.string(),
+  end: z.string(),
+  duration: z.number().optional(),
+  activeEnergyBurned: QuantitySchema.optional(),
+  activeEnergy: QuantitySchema.optional(),
+  distance: QuantitySchema.optional(),
+  avgHeartRate: QuantitySchema.optional(),
+  heartRate: z
+    .looseObject({
+      avg: QuantitySchema.optional(),
+    })
+    .optional(),
+});
+
+export type HealthKitWorkout = z.infer<typeof HealthKitWorkoutSchema>;
+
+const KJ_PER_KCAL = 4.184;
+const KM_PER_MILE = 1.609344;
+
+function toKcal(energy?: { qty: number; units?: string }): number | undefined {
+  if (!energy) {
+    return undefined;
+  }
+  return round(
+    energy.units === 'kJ' ? energy.qty / KJ_PER_KCAL : energy.qty,
+    2
+  );
+}
+
+function toKm(distance?: { qty: number; units?: string }): number | undefined {
+  if (!distance) {
+    return undefined;
+  }
+  switch (distance.units) {
+    case 'mi':
+      return round(distance.qty * KM_PER_MILE, 2);
+    case 'm':
+      return round(distance.qty / 1000, 2);
+    default:
+      return round(distance.qty, 2);
+  }
+}
+
+/**
+ * Converts an exported workout to a workout log entry, dated by the local
+ * calendar day it started on
+ */
+export function toRecordedWorkout(workout: HealthKitWorkout): RecordedWorkout {
+  const start = parseHealthKitDate(workout.start);
+  const end = parseHealthKitDate(workout.end);
+  const durationSeconds =
+    workout.duration ??
+    (start && end ? (end.instant - start.instant) / 1000 : undefined);
+
+  const recorded: RecordedWorkout = {
+    date: getHealthKitLocalDate(workout.start),
+    type: workout.name,
+    start: workout.start,
+    end: workout.end,
+    durationMinutes:
+      durationSeconds === undefined
+        ? undefined
+        : round(durationSeconds / 60, 2),
+    activeEnergyKcal: toKcal(
+      workout.activeEnergyBurned ?? workout.activeEnergy
+    ),
+    distanceKm: toKm(workout.distance),
+    avgHeartRate:
+      workout.avgHeartRate?.qty ?? workout.heartRate?.avg?.qty ?? undefined,
+  };
+
+  // Drop missing measurements so the log only carries what was recorded
+  return Object.fromEntries(
+    Object.entries(recorded).filter(([, value]) => value !== undefined)
+  ) as RecordedWorkout;
+}
+
+async function readWorkoutLog(
+  filePath: string,
+  reader: ReaderFunction
+): Promise<Workout[]> {
+  let content: string;
+  try {
+    content = await reader(filePath);
+  } catch (error) {
+    // File doesn't exist, start fresh
+    return [];
+  }
+
+  const parsed = JSON.parse(content);
+  if (!Array.isArray(parsed)) {
+    throw new Error(`${filePath} is not a list of workouts`);
+  }
+  return parsed as Workout[];
+}
+
+/**
+ * Validates exported workouts and merges them into the workout log
+ */
+export async function processWorkouts(
+  workouts: unknown[],
+  filePath: string,
+  writer: WriterFunction,
+  reader: ReaderFunction
+): Promise<{ success: boolean; message: string }> {
+  const validationResult = z.array(HealthKitWorkoutSchema).safeParse(workouts);
+  if (!validationResult.success) {
+    return {
+      success: false,
+      message: `Invalid workouts data: ${validationResult.error.issues
+        .map((error) => `${error.path.join('.')}: ${error.message}`)
+        .join('; ')}`,
+    };
+  }
+
+  const existing = await readWorkoutLog(filePath, reader);
+  const {
+    workouts: merged,
+    added,
+    updated,
+  } = mergeWorkouts(existing, validationResult.data.map(toRecordedWorkout));
+
+  await writer(filePath, serializeWorkouts(merged));
+
+  return {
+    success: true,
+    message: `Saved ${added} new and ${updated} updated workouts to ${filePath
+      .split('/')
+      .pop()}`,
+  };
+}
@@ -1,88 +1,22 @@
 import { z, ZodError } from 'zod';
+import {
+  createMetricFileSchema,
+  createMetricSchema,
+  getMetricDefinition,
+  HealthMetricData,
+  MetricDefinition,
+} from '@src/healthkit-metrics';
+import { processWorkouts } from '@src/healthkit-workouts';
+import {
+  compareHealthKitDates,
+  getHealthKitLocalDate,
+  parseHealthKitDate,
+} from '@src/time';
 
 type WriterFunction = (path: string, content: string) => Promise<void>;
 type ReaderFunction = (path: string) => Promise<string>;
 type CommentFunction = (comment: string) => Promise<void>;
 
-// Zod schemas for individual metric data types
-const HeartRateDataSchema = z.looseObject({
-  Max: z.number().optional(),
-  Avg: z.number().optional(),
-  Min: z.number().optional(),
-  source: z.string().optional(),
-  date: z.string(),
-});
-
-const HeartRateVariabilityDataSchema = z.looseObject({
-  qty: z.number(),
-  date: z.string(),
-});
-
-const RestingHeartRateDataSchema = z.looseObject({
-  qty: z.number(),
-  date: z.string(),
-});
-
-const SleepAnalysisDataSchema = z.object({
-  inBedStart: z.string().optional(),
-  awake: z.number().optional(),
-  source: z.string().optional(),
-  sleepStart: z.string().optional(),
-  totalSleep: z.number().optional(),
-  sleepEnd: z.string().optional(),
-  date: z.string(),
-  deep: z.number().optional(),
-  rem: z.number().optional(),
-  inBedEnd: z.string().optional(),
-  inBed: z.number().optional(),
-  core: z.number().optional(),
-  asleep: z.number().optional(),
-});
-
-const BodyTemperatureDataSchema = z.looseObject({
-  date: z.string(),
-  qty: z.number(),
-});
-
-// Metric schemas with discriminated unions based on name
-const HeartRateMetricSchema = z.object({
-  name: z.literal('heart_rate'),
-  units: z.literal('count/min'),
-  data: z.array(HeartRateDataSchema),
-});
-
-const HeartRateVariabilityMetricSchema = z.object({
-  name: z.literal('heart_rate_variability'),
-  units: z.literal('ms'),
-  data: z.array(HeartRateVariabilityDataSchema),
-});
-
-const SleepAnalysisMetricSchema = z.object({
-  name: z.literal('sleep_analysis'),
-  units: z.literal('hr'),
-  data: z.array(SleepAnalysisDataSchema),
-});
-
-const BodyTemperatureMetricSchema = z.object({
-  name: z.literal('body_temperature'),
-  units: z.literal('degC'),
-  data: z.array(BodyTemperatureDataSchema),
-});
-
-const RestingHeartRateMetricSchema = z.object({
-  name: z.literal('resting_heart_rate'),
-  units: z.literal('count/min'),
-  data: z.array(RestingHeartRateDataSchema),
-});
-
-const HealthMetricSchema = z.discriminatedUnion('name', [
-  HeartRateMetricSchema,
-  HeartRateVariabilityMetricSchema,
-  SleepAnalysisMetricSchema,
-  BodyTemperatureMetricSchema,
-  RestingHeartRateMetricSchema,
-]);
-
 // Lenient schema that allows unknown metrics to pass through
 // Unknown metrics will be validated during processing
 const LenientMetricSchema = z.looseObject({
@@ -94,21 +28,11 @@ const LenientMetricSchema = z.looseObject({
 const HealthDataExportSchema = z.object({
   data: z.object({
     metrics: z.array(LenientMetricSchema),
+    // Validated against the workout schema during processing
+    workouts: z.array(z.any()).optional(),
   }),
 });
 
-const HealthDataFileSchema = z.object({
-  metrics: z.array(
-    z.union([
-      HeartRateDataSchema,
-      HeartRateVariabilityDataSchema,
-      SleepAnalysisDataSchema,
-      BodyTemperatureDataSchema,
-      RestingHeartRateDataSchema,
-    ])
-  ),
-});
-
 const HealthDataIssueSchema = z.object({
   title: z.string(),
   body: z.string(),
@@ -117,39 +41,23 @@ const HealthDataIssueSchema = z.object({
 
 // Inferred TypeScript types from Zod schemas
 export type HealthDataIssue = z.infer<typeof HealthDataIssueSchema>;
-export type HeartRateData = z.infer<typeof HeartRateDataSchema>;
-export type HeartRateVariabilityData = z.infer<
-  typeof HeartRateVariabilityDataSchema
->;
-export type RestingHeartRateData = z.infer<typeof RestingHeartRateDataSchema>;
-export type SleepAnalysisData = z.infer<typeof SleepAnalysisDataSchema>;
-export type BodyTemperatureData = z.infer<typeof BodyTemperatureDataSchema>;
-export type HealthMetricData =
-  | HeartRateData
-  | HeartRateVariabilityData
-  | RestingHeartRateData
-  | SleepAnalysisData
-  | BodyTemperatureData;
-export type HeartRateMetric = z.infer<typeof HeartRateMetricSchema>;
-export type HeartRateVariabilityMetric = z.infer<
-  typeof HeartRateVariabilityMetricSchema
->;
-export type SleepAnalysisMetric = z.infer<typeof SleepAnalysisMetricSchema>;
-export type BodyTemperatureMetric = z.infer<typeof BodyTemperatureMetricSchema>;
-export type RestingHeartRateMetric = z.infer<
-  typeof RestingHeartRateMetricSchema
->;
-export type HealthMetric = z.infer<typeof HealthMetricSchema>;
 export type HealthDataExport = z.infer<typeof HealthDataExportSchema>;
-export type HealthDataFile = z.infer<typeof HealthDataFileSchema>;
-
-const METRIC_TO_FILE_MAP: Record<string, string> = {
-  heart_rate: 'hr.json',
-  heart_rate_variability: 'hrv.json',
-  body_temperature: 'bodySurfaceTemp.json',
-  sleep_analysis: 'sleep.json',
-  resting_heart_rate: 'restingHeartRate.json',
-};
+export type HealthDataFile = { metrics: HealthMetricData[] };
+export type {
+  BodyTemperatureData,
+  BodyTemperatureMetric,
+  HealthMetric,
+  HealthMetricData,
+  HeartRateData,
+  HeartRateMetric,
+  HeartRateVariabilityData,
+  HeartRateVariabilityMetric,
+  QuantityData,
+  RestingHeartRateData,
+  RestingHeartRateMetric,
+  SleepAnalysisData,
+  SleepAnalysisMetric,
+} from '@src/healthkit-metrics';
 
 const EXPECTED_ISSUE_TITLE = 'HealthDataExport';
 
@@ -210,44 +118,95 @@ export function getMetricFilePath(
   metricName: string,
   basePath: string
 ): string | null {
-  const fileName = METRIC_TO_FILE_MAP[metricName];
-  if (!fileName) {
+  const definition = getMetricDefinition(metricName);
+  if (!definition) {
     return null;
   }
-  return `${basePath}/${fileName}`;
+  return `${basePath}/${definition.fileName}`;
+}
+
+/**
+ * Raised when an existing vault file can't be parsed or fails its metric schema.
+ * Carries the raw content so it can be quarantined before anything is written.
+ */
+export class HealthDataFileValidationError extends Error {
+  constructor(
+    message: string,
+    public readonly filePath: string,
+    public readonly content: string
+  ) {
+    super(message);
+    this.name = 'HealthDataFileValidationError';
+  }
 }
 
 /**
  * Reads existing data from file, or returns empty structure if file doesn't exist
- * Validates data using Zod schema
+ * Validates data against the metric's own file schema and throws
+ * HealthDataFileValidationError instead of discarding an unreadable file
  */
 export async function readExistingData(
   filePath: string,
-  reader: ReaderFunction
+  reader: ReaderFunction,
+  definition: MetricDefinition
 ): Promise<HealthDataFile> {
+  let existingContent: string;
   try {
-    const existingContent = await reader(filePath);
-    const parsedJson = JSON.parse(existingContent);
-
-    // Validate with Zod schema
-    const validationResult = HealthDataFileSchema.safeParse(parsedJson);
+    existingContent = await reader(filePath);
+  } catch (error) {
+    // File doesn't exist, start fresh
+    return { metrics: [] };
+  }
 
-    if (!validationResult.success) {
-      // If validation fails, return empty structure to start fresh
-      const error: ZodError = validationResult.error;
-      console.warn(
-        `Validation failed for ${filePath}: ${error.issues
-          .map((err) => `${err.path.join('.')}: ${err.message}`)
-          .join('; ')}`
-      );
-      return { metrics: [] };
-    }
+  if (existingContent.trim() === '') {
+    return { metrics: [] };
+  }
 
-    return validationResult.data;
+  let parsedJson: unknown;
+  try {
+    parsedJson = JSON.parse(existingContent);
   } catch (error) {
-    // File doesn't exist or is empty, start fresh
-    return { metrics: [] };
+    throw new HealthDataFileValidationError(
+      `${filePath} is not valid JSON: ${
+        error instanceof Error ? error.message : String(error)
+      }`,
+      filePath,
+      existingContent
+    );
   }
+
+  // Validate with the metric's file schema
+  const validationResult =
+    createMetricFileSchema(definition).safeParse(parsedJson);
+
+  if (!validationResult.success) {
+    const error: ZodError = validationResult.error;
+    throw new HealthDataFileValidationError(
+      `${filePath} does not match the ${definition.name} schema: ${error.issues
+        .map((err) => `${err.path.join('.')}: ${err.message}`)
+        .join('; ')}`,
+      filePath,
+      existingContent
+    );
+  }
+
+  // Every registered data schema requires a date, so rows are metric data
+  return validationResult.data as HealthDataFile;
+}
+
+/**
+ * Writes a timestamped copy of a vault file that failed validation next to it
+ */
+export async function quarantineFile(
+  filePath: string,
+  content: string,
+  writer: WriterFunction,
+  now: Date = new Date()
+): Promise<string> {
+  const timestamp = now.toISOString().replace(/[:.]/g, '-');
+  const quarantinePath = `${filePath}.quarantine-${timestamp}`;
+  await writer(quarantinePath, content);
+  return quarantinePath;
 }
 
 /**
@@ -273,40 +232,14 @@ function extractKeysFromZodSchema(
   return [];
 }
 
-/**
- * Maps metric names to their corresponding data schemas
- */
-const METRIC_TO_DATA_SCHEMA: Record<string, z.ZodObject<any> | z.ZodLazy<any>> =
-  {
-    heart_rate: HeartRateDataSchema,
-    heart_rate_variability: HeartRateVariabilityDataSchema,
-    sleep_analysis: SleepAnalysisDataSchema,
-    body_temperature: BodyTemperatureDataSchema,
-    resting_heart_rate: RestingHeartRateDataSchema,
-  };
-
-/**
- * Key order for each schema type (dynamically generated from Zod schema definitions)
- */
-const SCHEMA_KEY_ORDER: Record<string, string[]> = Object.fromEntries(
-  Object.entries(METRIC_TO_DATA_SCHEMA).map(([metricName, schema]) => [
-    metricName,
-    extractKeysFromZodSchema(schema),
-  ])
-);
-
 /**
  * Reorders object keys to match the Zod schema definition order
  */
 function reorderKeysBySchema<T extends Record<string, any>>(
   obj: T,
-  metricName: string
+  definition: MetricDefinition
 ): T {
-  const keyOrder = SCHEMA_KEY_ORDER[metricName];
-  if (!keyOrder) {
-    // Unknown metric type, return as-is
-    return obj;
-  }
+  const keyOrder = extractKeysFromZodSchema(definition.dataSchema);
 
   const reordered: any = {};
 
@@ -328,22 +261,46 @@ function reorderKeysBySchema<T extends Record<string, any>>(
 }
 
 /**
- * Filters out duplicate metric entries based on date.
- * Always keeps new metrics and removes existing ones for the same date.
+ * Builds the identity of a row from the metric's dedup key fields. "date" is
+ * compared as a canonical instant, so rows from different times of the same
+ * day are all kept. "day" is compared by local calendar day, so a once-a-day
+ * row re-exported under a different UTC offset replaces the earlier one.
+ */
+function getDedupKey(item: HealthMetricData, dedupKey: string[]): string {
+  return JSON.stringify(
+    dedupKey.map((field) => {
+      if (field === 'date') {
+        return parseHealthKitDate(item.date)?.iso ?? item.date;
+      }
+      if (field === 'day') {
+        return getHealthKitLocalDate(item.date);
+      }
+      return (item as Record<string, unknown>)[field] ?? null;
+    })
+  );
+}
+
+/**
+ * Filters out duplicate metric entries based on the dedup key (date and source
+ * by default), so rows from different devices or times are all kept.
+ * Always keeps new metrics and removes existing ones with the same key.
  */
 export function deduplicateMetrics(
   existingMetrics: HealthMetricData[],
-  newMetrics: HealthMetricData[]
+  newMetrics: HealthMetricData[],
+  dedupKey: string[] = ['date', 'source']
 ): {
   filteredNewMetrics: HealthMetricData[];
   filteredExistingMetrics: HealthMetricData[];
 } {
-  // Create a set of dates from new metrics
-  const newMetricDates = new Set(newMetrics.map((item) => item.date));
+  // Create a set of keys from new metrics
+  const newMetricKeys = new Set(
+    newMetrics.map((item) => getDedupKey(item, dedupKey))
+  );
 
-  // Keep only existing metrics that don't have a date matching any new metric
+  // Keep only existing metrics that don't have a key matching any new metric
   const filteredExistingMetrics = existingMetrics.filter(
-    (existing) => !newMetricDates.has(existing.date)
+    (existing) => !newMetricKeys.has(getDedupKey(existing, dedupKey))
   );
 
   // Always keep all new metrics
@@ -353,6 +310,102 @@ export function deduplicateMetrics(
   };
 }
 
+/**
+ * Ranks devices per metric; sources earlier in the list win. Metrics without
+ * their own list fall back to `default`.
+ */
+export type SourcePriorityPolicy = {
+  default: string[];
+  metrics?: Record<string, string[]>;
+};
+
+function getSourceRank(source: unknown, priority: string[]): number {
+  const index = typeof source === 'string' ? priority.indexOf(source) : -1;
+  return index === -1 ? priority.length : index;
+}
+
+/**
+ * Builds a merged daily view of a metric with one row per day. When several
+ * devices recorded the same day, the source ranked highest by the policy wins;
+ * unlisted sources rank last and keep their file order among themselves.
+ * The raw rows in the vault file are left untouched.
+ */
+export function buildMergedDailyView<T extends HealthMetricData>(
+  rows: T[],
+  metricName: string,
+  policy: SourcePriorityPolicy
+): T[] {
+  const priority = policy.metrics?.[metricName] ?? policy.default;
+  const rowsByDay = new Map<string, T>();
+
+  for (const row of rows) {
+    const day = getHealthKitLocalDate(row.date);
+    const current = rowsByDay.get(day);
+    if (
+      !current ||
+      getSourceRank(row.source, priority) <
+        getSourceRank(current.source, priority)
+    ) {
+      rowsByDay.set(day, row);
+    }
+  }
+
+  return [...rowsByDay.entries()]
+    .sort(([dayA], [dayB]) => dayA.localeCompare(dayB))
+    .map(([, row]) => row);
+}
+
+/**
+ * Outcome of ingesting one metric, summarised in the issue comment
+ */
+export type MetricIngestResult = {
+  metric: string;
+  file: string | null;
+  status: 'saved' | 'unchanged' | 'skipped' | 'failed';
+  added: number;
+  replaced: number;
+  total: number | null;
+};
+
+export type MetricProcessResult = {
+  success: boolean;
+  message: string;
+  summary: MetricIngestResult;
+};
+
+export type HealthDataIngestResult = {
+  success: boolean;
+  message: string;
+  // Some metrics were saved even though others failed
+  partial: boolean;
+  metrics: MetricIngestResult[];
+};
+
+const METRIC_STATUS_LABELS: Record<MetricIngestResult['status'], string> = {
+  saved: '✅ saved',
+  unchanged: '➖ unchanged',
+  skipped: '⏭️ skipped',
+  failed: '❌ failed',
+};
+
+/**
+ * Formats per-metric results as a markdown table
+ */
+export function formatMetricResultsTable(
+  results: MetricIngestResult[]
+): string {
+  return [
+    '| Metric | File | Status | New | Replaced | Total |',
+    '| --- | --- | --- | ---: | ---: | ---: |',
+    ...results.map(
+      (result) =>
+        `| ${result.metric} | ${result.file ?? '-'} | ${
+          METRIC_STATUS_LABELS[result.status]
+        } | ${result.added} | ${result.replaced} | ${result.total ?? '-'} |`
+    ),
+  ].join('\n');
+}
+
 /**
  * Processes a single metric and saves it to the appropriate file
  */
@@ -360,56 +413,85 @@ export async function processMetric(
   metric: any, // Lenient type - can be any metric structure
   basePath: string,
   writer: WriterFunction,
-  reader: ReaderFunction
-): Promise<{ success: boolean; message: string }> {
-  // Check if this is a known metric and validate against strict schema
-  const filePath = getMetricFilePath(metric.name, basePath);
+  reader: ReaderFunction,
+  existingData?: HealthDataFile
+): Promise<MetricProcessResult> {
+  // Check if this is a registered metric and validate against strict schema
+  const definition = getMetricDefinition(metric.name);
 
-  if (!filePath) {
+  if (!definition) {
     return {
       success: true, // Treat as success (skip gracefully)
       message: `Skipping unknown metric: ${metric.name}`,
+      summary: {
+        metric: metric.name,
+        file: null,
+        status: 'skipped',
+        added: 0,
+        replaced: 0,
+        total: null,
+      },
     };
   }
 
+  const filePath = `${basePath}/${definition.fileName}`;
+
   // Validate the metric against the strict schema
-  const validationResult = HealthMetricSchema.safeParse(metric);
+  const validationResult = createMetricSchema(definition).safeParse(metric);
   if (!validationResult.success) {
     return {
       success: false,
       message: `Invalid data for known metric ${metric.name}: ${validationResult.error.issues
         .map((error) => `${error.path.join('.')}: ${error.message}`)
         .join('; ')}`,
+      summary: {
+        metric: metric.name,
+        file: definition.fileName,
+        status: 'failed',
+        added: 0,
+        replaced: 0,
+        total: null,
+      },
     };
   }
 
   const validatedMetric = validationResult.data;
-  const existingData = await readExistingData(filePath, reader);
+  const newMetrics = validatedMetric.data as HealthMetricData[];
+  const existingMetrics = (
+    existingData ?? (await readExistingData(filePath, reader, definition))
+  ).metrics;
   const { filteredNewMetrics, filteredExistingMetrics } = deduplicateMetrics(
-    existingData.metrics,
-    validatedMetric.data
+    existingMetrics,
+    newMetrics,
+    definition.dedupKey
   );
 
   if (filteredNewMetrics.length === 0) {
     return {
       success: true,
       message: `No new data for ${validatedMetric.name} (already ingested)`,
+      summary: {
+        metric: validatedMetric.name,
+        file: definition.fileName,
+        status: 'unchanged',
+        added: 0,
+        replaced: 0,
+        total: existingMetrics.length,
+      },
     };
   }
 
   // Merge with existing data (which may have been cleaned of incomplete entries)
   const mergedMetrics = [...filteredExistingMetrics, ...filteredNewMetrics];
 
-  // Sort by date in ascending order for clean commits
-  const sortedMetrics = mergedMetrics.sort((a, b) => {
-    const dateA = a.date || '';
-    const dateB = b.date || '';
-    return dateA.localeCompare(dateB);
-  });
+  // Sort by instant in ascending order for clean commits
+  const sortedMetrics = mergedMetrics.sort((a, b) =>
+    compareHealthKitDates(a.date || '', b.date || '')
+  );
 
   // Reorder keys in each metric to match Zod schema order
   const reorderedMetrics = sortedMetrics.map((metric) =>
-    reorderKeysBySchema(metric, validatedMetric.name)
+    reorderKeysBySchema(metric, definition)
   );
 
   const mergedData: HealthDataFile = {
@@ -421,11 +503,20 @@ export async function processMetric(
 
   const message = `Saved ${filteredNewMetrics.length} new entries for ${
     validatedMetric.name
-  } to ${getMetricFilePath(validatedMetric.name, basePath)?.split('/').pop()}`;
+  } to ${definition.fileName}`;
+  const replaced = existingMetrics.length - filteredExistingMetrics.length;
 
   return {
     success: true,
     message,
+    summary: {
+      metric: validatedMetric.name,
+      file: definition.fileName,
+      status: 'saved',
+      added: Math.max(filteredNewMetrics.length - replaced, 0),
+      replaced,
+      total: reorderedMetrics.length,
+    },
   };
 }
 
@@ -437,7 +528,8 @@ export async function ingestHealthDataFromIssue(
   writer: WriterFunction,
   reader: ReaderFunction,
   commenter?: CommentFunction,
-  basePath: string = './vault/healthkit'
+  basePath: string = './vault/healthkit',
+  workoutsFilePath: string = './vault/workouts.json'
 ): Promise<{ success: boolean; message: string }> {
   // Step 1: Validate issue title - silently exit if not meant for us
   const titleValidation = validateIssueTitle(issue.title);
@@ -462,16 +554,89 @@ export async function ingestHealthDataFromIssue(
     };
   }
 
-  const healthData = parseResult.data;
+  return ingestHealthData(
+    parseResult.data,
+    writer,
+    reader,
+    commenter,
+    basePath,
+    workoutsFilePath
+  );
+}
 
-  // Step 3: Process each metric
+/**
+ * Saves parsed health data to the vault and posts the outcome as a comment
+ */
+export async function ingestHealthData(
+  healthData: HealthDataExport,
+  writer: WriterFunction,
+  reader: ReaderFunction,
+  commenter?: CommentFunction,
+  basePath: string = './vault/healthkit',
+  workoutsFilePath: string = './vault/workouts.json'
+): Promise<HealthDataIngestResult> {
+  // Step 1: Load existing vault files up front so a file that fails its
+  // schema aborts the ingestion before anything is written
+  const existingDataByMetric = new Map<string, HealthDataFile>();
+
+  for (const metric of healthData.data.metrics) {
+    const definition = getMetricDefinition(metric.name);
+    if (!definition || existingDataByMetric.has(metric.name)) {
+      continue;
+    }
+
+    try {
+      existingDataByMetric.set(
+        metric.name,
+        await readExistingData(
+          `${basePath}/${definition.fileName}`,
+          reader,
+          definition
+        )
+      );
+    } catch (error) {
+      if (!(error instanceof HealthDataFileValidationError)) {
+        throw error;
+      }
+
+      const quarantinePath = await quarantineFile(
+        error.filePath,
+        error.content,
+        writer
+      );
+      const errorMsg = `Aborted ingestion: ${error.message}. A copy of the file was saved to ${quarantinePath}`;
+      if (commenter) {
+        await commenter(`❌ ${errorMsg}`);
+      }
+      return {
+        success: false,
+        message: errorMsg,
+        partial: false,
+        metrics: [],
+      };
+    }
+  }
+
+  // Step 2: Process each metric
   const messages: string[] = [];
   const errors: string[] = [];
+  const summaries: MetricIngestResult[] = [];
 
   for (const metric of healthData.data.metrics) {
+    // Preloaded data is only fresh for the first occurrence of a metric
+    const existingData = existingDataByMetric.get(metric.name);
+    existingDataByMetric.delete(metric.name);
+
     try {
-      const result = await processMetric(metric, basePath, writer, reader);
+      const result = await processMetric(
+        metric,
+        basePath,
+        writer,
+        reader,
+        existingData
+      );
 
+      summaries.push(result.summary);
       if (result.success) {
         messages.push(result.message);
       } else {
@@ -482,24 +647,66 @@ export async function ingestHealthDataFromIssue(
         error instanceof Error ? error.message : String(error)
       }`;
       errors.push(errorMsg);
+      summaries.push({
+        metric: metric.name,
+        file: getMetricDefinition(metric.name)?.fileName ?? null,
+        status: 'failed',
+        added: 0,
+        replaced: 0,
+        total: null,
+      });
+    }
+  }
+
+  // Step 3: Merge workouts into the workout log
+  const workouts = healthData.data.workouts ?? [];
+  let workoutsSaved = false;
+  if (workouts.length > 0) {
+    try {
+      const result = await processWorkouts(
+        workouts,
+        workoutsFilePath,
+        writer,
+        reader
+      );
+
+      workoutsSaved = result.success;
+      if (result.success) {
+        messages.push(result.message);
+      } else {
+        errors.push(result.message);
+      }
+    } catch (error) {
+      errors.push(
+        `Error processing workouts: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
     }
   }
 
   // Step 4: Handle results and post comments
+  const table =
+    summaries.length > 0 ? `\n\n${formatMetricResultsTable(summaries)}` : '';
+
   if (errors.length > 0) {
     const errorMessage = `❌ Encountered errors:\n${errors
       .map((e) => `- ${e}`)
-      .join('\n')}`;
+      .join('\n')}${table}`;
     if (commenter) {
       await commenter(errorMessage);
     }
     return {
       success: false,
       message: errorMessage,
+      partial:
+        workoutsSaved ||
+        summaries.some((summary) => summary.status === 'saved'),
+      metrics: summaries,
     };
   }
 
-  const successMessage = `✅ Successfully ingested health data!\n\n${messages
+  const successMessage = `✅ Successfully ingested health data!${table}\n\n${messages
     .map((m) => `- ${m}`)
     .join('\n')}`;
   if (commenter) {
@@ -509,5 +716,7 @@ export async function ingestHealthDataFromIssue(
   return {
     success: true,
     message: successMessage,
+    partial: false,
+    metrics: summaries,
   };
 }
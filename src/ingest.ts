@@ -0,0 +1,59 @@
+import { resolve } from 'node:path';
+
+export type IngestSource = {
+  name: string;
+  body: string;
+};
+
+const GLOB_PATTERN = /[*?[\]{}]/;
+
+/**
+ * Expands file paths and glob patterns into a sorted list of files. Plain
+ * paths are kept as given so a missing file surfaces as a read error.
+ */
+export async function expandIngestPaths(
+  patterns: string[],
+  cwd = '.'
+): Promise<string[]> {
+  const paths = new Set<string>();
+
+  for (const pattern of patterns) {
+    if (!GLOB_PATTERN.test(pattern)) {
+      paths.add(pattern);
+      continue;
+    }
+
+    const matches: string[] = [];
+    for await (const match of new Bun.Glob(pattern).scan({ cwd })) {
+      matches.push(match);
+    }
+    matches.sort().forEach((match) => paths.add(match));
+  }
+
+  return [...paths];
+}
+
+/**
+ * Reads payloads from files and globs, or from stdin when no paths (or "-")
+ * are given
+ */
+export async function readIngestSources(
+  patterns: string[],
+  cwd = '.'
+): Promise<IngestSource[]> {
+  if (patterns.length === 0 || (patterns.length === 1 && patterns[0] === '-')) {
+    return [{ name: 'stdin', body: await Bun.stdin.text() }];
+  }
+
+  const paths = await expandIngestPaths(patterns, cwd);
+  if (paths.length === 0) {
+    throw new Error(`No files match ${patterns.join(', ')}`);
+  }
+
+  return Promise.all(
+    paths.map(async (path) => ({
+      name: path,
+      body: await Bun.file(resolve(cwd, path)).text(),
+    }))
+  );
+}
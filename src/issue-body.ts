@@ -0,0 +1,80 @@
+import { z, ZodError } from 'zod';
+
+/**
+ * Reads an issue body written either as a JSON object or as `key: value`
+ * lines, which is easier to produce from a phone shortcut. Keys from text
+ * bodies are lowercased; values stay strings for the schema to coerce.
+ */
+export function parseIssueFields(body: string): Record<string, unknown> {
+  const trimmed = body.trim();
+
+  if (trimmed.startsWith('{')) {
+    return JSON.parse(trimmed);
+  }
+
+  return Object.fromEntries(
+    trimmed
+      .split('\n')
+      .map((line) => line.trim())
+      .filter(Boolean)
+      .map((line) => {
+        const separatorIndex = line.indexOf(':');
+
+        if (separatorIndex === -1) {
+          throw new Error(`Expected "key: value" but got "${line}"`);
+        }
+
+        return [
+          line.slice(0, separatorIndex).trim().toLowerCase(),
+          line.slice(separatorIndex + 1).trim(),
+        ];
+      })
+  );
+}
+
+/**
+ * A non-negative number given as a JSON number or as text. Blank text and
+ * null are rejected rather than coerced to 0, so an empty field can't be
+ * saved as a zero reading.
+ */
+export function nonnegativeNumberField() {
+  return z
+    .union([z.number(), z.string().trim().min(1, 'Required')], {
+      error: 'Expected a number',
+    })
+    .pipe(z.coerce.number<string | number>().nonnegative());
+}
+
+/**
+ * Parses an issue body and validates its fields against a schema
+ */
+export function parseIssueBody<TSchema extends z.ZodType>(
+  body: string,
+  schema: TSchema,
+  label: string
+): { success: boolean; data?: z.infer<TSchema>; error?: string } {
+  let fields: Record<string, unknown>;
+  try {
+    fields = parseIssueFields(body);
+  } catch (error) {
+    return {
+      success: false,
+      error: `Error parsing ${label}: ${
+        error instanceof Error ? error.message : String(error)
+      }`,
+    };
+  }
+
+  const validationResult = schema.safeParse(fields);
+  if (!validationResult.success) {
+    const error: ZodError = validationResult.error;
+    return {
+      success: false,
+      error: `Validation failed: ${error.issues
+        .map((err) => `${err.path.join('.')}: ${err.message}`)
+        .join('; ')}`,
+    };
+  }
+
+  return { success: true, data: validationResult.data };
+}
@@ -0,0 +1,143 @@
+import config from '@src/config';
+import { normalizePlace } from '@src/gazetteer';
+import { LocationDataFile, readExistingLocationData } from '@src/location';
+import { addDaysToIsoDate, getCurrentDate } from '@src/time';
+import { readVaultFile } from '@src/vault-io';
+
+/**
+ * A continuous period in one place. `end` is the date we left, which is the
+ * start of the next stay, and is null for the current stay.
+ */
+type LocationStay = {
+  city: string;
+  country: string;
+  start: string;
+  end: string | null;
+  days: number;
+};
+
+type LocationYearSummary = {
+  daysTracked: number;
+  daysAbroad: number;
+  countries: Record<string, number>;
+  cities: Record<string, number>;
+};
+
+type LocationStaysIndex = {
+  homeCountry: string;
+  asOf: string;
+  stays: LocationStay[];
+  years: Record<string, LocationYearSummary>;
+  countriesVisited: string[];
+};
+
+type GenerateLocationStaysOptions = {
+  locationPath?: string;
+  savePath?: string;
+  homeCountry?: string;
+  asOf?: string;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function getDaysBetween(start: string, end: string): number {
+  return Math.round((Date.parse(end) - Date.parse(start)) / DAY_MS);
+}
+
+function increment(counts: Record<string, number>, key: string) {
+  counts[key] = (counts[key] ?? 0) + 1;
+}
+
+/**
+ * Turns location change points into stays. Each calendar day is counted for
+ * the place we were in at the end of it, so a travel day belongs to the
+ * destination and entries logged on the same day as the next one (layovers)
+ * count zero days. The current stay runs up to and including `asOf`. Places
+ * use their gazetteer names so "Delhi" and "New Delhi" add up together.
+ */
+function buildLocationStays(
+  locations: LocationDataFile,
+  asOf: string
+): LocationStay[] {
+  return [...locations]
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .filter((entry) => entry.date <= asOf)
+    .map((entry, index, entries) => {
+      const next = entries[index + 1];
+      return {
+        ...normalizePlace(entry),
+        start: entry.date,
+        end: next?.date ?? null,
+        days: next
+          ? getDaysBetween(entry.date, next.date)
+          : getDaysBetween(entry.date, asOf) + 1,
+      };
+    });
+}
+
+/**
+ * Summarises stays into days per country and city for each calendar year,
+ * plus how many of those days were spent outside the home country
+ */
+function buildLocationStaysIndex(
+  locations: LocationDataFile,
+  homeCountry: string,
+  asOf: string
+): LocationStaysIndex {
+  const stays = buildLocationStays(locations, asOf);
+  const years: Record<string, LocationYearSummary> = {};
+
+  for (const stay of stays) {
+    for (let offset = 0; offset < stay.days; offset++) {
+      const date = addDaysToIsoDate(stay.start, offset);
+      const year = (years[date.slice(0, 4)] ??= {
+        daysTracked: 0,
+        daysAbroad: 0,
+        countries: {},
+        cities: {},
+      });
+
+      year.daysTracked++;
+      if (stay.country !== homeCountry) {
+        year.daysAbroad++;
+      }
+      increment(year.countries, stay.country);
+      increment(year.cities, `${stay.city}, ${stay.country}`);
+    }
+  }
+
+  return {
+    homeCountry,
+    asOf,
+    stays,
+    years,
+    countriesVisited: [...new Set(stays.map((stay) => stay.country))],
+  };
+}
+
+async function generateLocationStays({
+  locationPath = config.locationFilePath,
+  savePath = config.locationStaysFilePath,
+  homeCountry = config.homeCountry,
+  asOf = getCurrentDate(),
+}: GenerateLocationStaysOptions = {}) {
+  const locations = await readExistingLocationData(locationPath, readVaultFile);
+  const index = buildLocationStaysIndex(locations, homeCountry, asOf);
+
+  await Bun.write(savePath, `${JSON.stringify(index, null, 2)}\n`);
+
+  return {
+    savePath,
+    count: index.stays.length,
+    msg: 'Location stays generated',
+  };
+}
+
+export {
+  LocationStay,
+  LocationStaysIndex,
+  LocationYearSummary,
+  buildLocationStays,
+  buildLocationStaysIndex,
+  generateLocationStays,
+};
@@ -1,21 +1,82 @@
 import { z, ZodError } from "zod";
-import { getCurrentDate } from "@src/time";
+import {
+  DEFAULT_MAX_DISTANCE_KM,
+  findNearestCity,
+  normalizePlace,
+} from "@src/gazetteer";
+import { quarantineFile } from "@src/healthkit";
+import { getCurrentDate, getDateInTimeZone, isValidTimeZone } from "@src/time";
 
 type WriterFunction = (path: string, content: string) => Promise<void>;
 type ReaderFunction = (path: string) => Promise<string>;
 type CommentFunction = (comment: string) => Promise<void>;
 
-// Zod schema for location data
-const LocationDataSchema = z.object({
-  city: z.string(),
-  country: z.string(),
+// Optional details an automation can send along with the place. arrivedAt
+// needs an offset so it means the same instant wherever it is processed.
+const LocationDetailsSchema = z.object({
+  latitude: z.number().min(-90).max(90).optional(),
+  longitude: z.number().min(-180).max(180).optional(),
+  timezone: z
+    .string()
+    .refine(isValidTimeZone, "Expected an IANA time zone such as Europe/Lisbon")
+    .optional(),
+  arrivedAt: z.iso.datetime({ offset: true }).optional(),
+  source: z.string().optional(),
 });
 
-const LocationEntrySchema = z.object({
-  date: z.string(),
-  city: z.string(),
-  country: z.string(),
-});
+const hasCoordinates = (data: { latitude?: number }) =>
+  data.latitude !== undefined;
+
+// Zod schema for location data. Payloads with only coordinates (as
+// latitude/longitude or lat/lon) get their city, country and time zone from
+// the offline gazetteer. `date` backdates the entry; with `correct` it
+// replaces the entry logged on that date instead.
+const LocationDataSchema = z
+  .object({
+    city: z.string().optional(),
+    country: z.string().optional(),
+    lat: z.number().min(-90).max(90).optional(),
+    lon: z.number().min(-180).max(180).optional(),
+    date: z.iso.date().optional(),
+    correct: z.boolean().optional(),
+  })
+  .extend(LocationDetailsSchema.shape)
+  .transform(({ lat, lon, ...data }) =>
+    lat === undefined && lon === undefined
+      ? data
+      : {
+          ...data,
+          latitude: data.latitude ?? lat,
+          longitude: data.longitude ?? lon,
+        }
+  )
+  .refine(
+    (data) => (data.latitude === undefined) === (data.longitude === undefined),
+    {
+      message: "latitude and longitude must be given together",
+      path: ["longitude"],
+    }
+  )
+  .refine((data) => data.city !== undefined || hasCoordinates(data), {
+    message: "Required unless latitude and longitude are given",
+    path: ["city"],
+  })
+  .refine((data) => data.country !== undefined || hasCoordinates(data), {
+    message: "Required unless latitude and longitude are given",
+    path: ["country"],
+  })
+  .refine((data) => !data.correct || data.date !== undefined, {
+    message: "A correction needs the date of the entry to replace",
+    path: ["date"],
+  });
+
+const LocationEntrySchema = z
+  .object({
+    date: z.string(),
+    city: z.string(),
+    country: z.string(),
+  })
+  .extend(LocationDetailsSchema.shape);
 
 const LocationDataFileSchema = z.array(LocationEntrySchema);
 
@@ -25,6 +86,8 @@ const LocationDataIssueSchema = z.object({
   createdAt: z.string().optional(),
 });
 
+const IssueCreatedAtSchema = z.iso.datetime({ offset: true });
+
 // Inferred TypeScript types from Zod schemas
 export type LocationDataIssue = z.infer<typeof LocationDataIssueSchema>;
 export type LocationData = z.infer<typeof LocationDataSchema>;
@@ -81,47 +144,119 @@ export function parseLocationData(body: string): {
   }
 }
 
+/**
+ * Raised when the existing location file can't be parsed or fails its schema.
+ * Carries the raw content so it can be quarantined before anything is written.
+ */
+export class LocationDataFileValidationError extends Error {
+  constructor(
+    message: string,
+    public readonly filePath: string,
+    public readonly content: string
+  ) {
+    super(message);
+    this.name = "LocationDataFileValidationError";
+  }
+}
+
 /**
  * Reads existing location data from file, or returns empty array if file doesn't exist
- * Validates data using Zod schema
+ * Validates data using Zod schema and throws LocationDataFileValidationError
+ * instead of discarding an unreadable file
  */
 export async function readExistingLocationData(
   filePath: string,
   reader: ReaderFunction
 ): Promise<LocationDataFile> {
+  let existingContent: string;
   try {
-    const existingContent = await reader(filePath);
-    const parsedJson = JSON.parse(existingContent);
-    
-    // Validate with Zod schema
-    const validationResult = LocationDataFileSchema.safeParse(parsedJson);
-    
-    if (!validationResult.success) {
-      // If validation fails, return empty array to start fresh
-      const error: ZodError = validationResult.error;
-      console.warn(
-        `Validation failed for ${filePath}: ${error.issues
-          .map((err) => `${err.path.join(".")}: ${err.message}`)
-          .join("; ")}`
-      );
-      return [];
-    }
-
-    return validationResult.data;
+    existingContent = await reader(filePath);
   } catch (error) {
-    // File doesn't exist or is empty, start fresh
+    // File doesn't exist, start fresh
+    return [];
+  }
+
+  if (existingContent.trim() === "") {
     return [];
   }
+
+  let parsedJson: unknown;
+  try {
+    parsedJson = JSON.parse(existingContent);
+  } catch (error) {
+    throw new LocationDataFileValidationError(
+      `${filePath} is not valid JSON: ${
+        error instanceof Error ? error.message : String(error)
+      }`,
+      filePath,
+      existingContent
+    );
+  }
+
+  // Validate with Zod schema
+  const validationResult = LocationDataFileSchema.safeParse(parsedJson);
+
+  if (!validationResult.success) {
+    const error: ZodError = validationResult.error;
+    throw new LocationDataFileValidationError(
+      `${filePath} does not match the location schema: ${error.issues
+        .map((err) => `${err.path.join(".")}: ${err.message}`)
+        .join("; ")}`,
+      filePath,
+      existingContent
+    );
+  }
+
+  return validationResult.data;
+}
+
+type ResolvedPlace = { city: string; country: string; timezone?: string };
+
+/**
+ * Places are compared by city and country together, since several countries
+ * have a Delhi or a Cambridge. Alternate names such as "Delhi" for
+ * "New Delhi" count as the same city.
+ */
+function isSamePlace(entry: LocationEntry, place: ResolvedPlace): boolean {
+  const a = normalizePlace(entry);
+  const b = normalizePlace(place);
+  return a.city === b.city && a.country === b.country;
 }
 
 /**
- * Gets the last location entry from the location data file
+ * Fills in whatever the payload left out from the nearest gazetteer city to
+ * its coordinates. Returns null when there are coordinates to look up but no
+ * known city close enough.
  */
-function getLastLocationEntry(locationData: LocationDataFile): LocationEntry | null {
-  if (locationData.length === 0) {
+function resolvePlace(locationData: LocationData): ResolvedPlace | null {
+  const { city, country, timezone, latitude, longitude } = locationData;
+  const nearest =
+    latitude !== undefined && longitude !== undefined
+      ? findNearestCity(latitude, longitude)
+      : null;
+
+  if (city !== undefined && country !== undefined) {
+    return { city, country, timezone: timezone ?? nearest?.city.timezone };
+  }
+  if (!nearest) {
     return null;
   }
-  return locationData[locationData.length - 1];
+  return {
+    city: city ?? nearest.city.name,
+    country: country ?? nearest.city.country,
+    timezone: timezone ?? nearest.city.timezone,
+  };
+}
+
+/**
+ * Gets the calendar date of an arrival, in the place's time zone when it is
+ * known and otherwise in the offset the timestamp was written with
+ */
+function getArrivalDate(arrivedAt: string, timezone?: string): string {
+  if (timezone) {
+    return getDateInTimeZone(new Date(arrivedAt), timezone);
+  }
+  return arrivedAt.slice(0, 10);
 }
 
 /**
@@ -157,33 +292,163 @@ export async function ingestLocationDataFromIssue(
     };
   }
 
-  const locationData = parseResult.data;
+  return ingestLocationData(
+    parseResult.data,
+    writer,
+    reader,
+    commenter,
+    filePath,
+    issue.createdAt
+  );
+}
 
-  // Step 3: Read existing location data
-  const existingLocations = await readExistingLocationData(filePath, reader);
-  const lastEntry = getLastLocationEntry(existingLocations);
+/**
+ * Finds where an entry for a date belongs so the file stays in date order.
+ * Entries already logged for the same day stay ahead of it.
+ */
+function findInsertIndex(locations: LocationDataFile, date: string): number {
+  const index = locations.findIndex((entry) => entry.date > date);
+  return index === -1 ? locations.length : index;
+}
 
-  // Step 4: Check if the city is the same as the last entry
-  if (lastEntry && lastEntry.city === locationData.city) {
-    const message = `Location not updated: ${locationData.city}, ${locationData.country} is the same as the last entry`;
+/**
+ * Adds a parsed location to the location file in date order and posts the
+ * outcome as a comment. The date comes from the payload, then its arrival
+ * time, then when the issue was opened. In correction mode the entry logged
+ * on that date is replaced instead.
+ */
+export async function ingestLocationData(
+  locationData: LocationData,
+  writer: WriterFunction,
+  reader: ReaderFunction,
+  commenter?: CommentFunction,
+  filePath: string = "./vault/location.json",
+  createdAt?: string
+): Promise<{ success: boolean; message: string }> {
+  // Step 1: Work out the place, looking it up from coordinates if needed
+  const place = resolvePlace(locationData);
+  if (!place) {
+    const errorMsg = `No known city within ${DEFAULT_MAX_DISTANCE_KM} km of ${locationData.latitude}, ${locationData.longitude}. Add it to src/data/extra-cities.tsv or send the city and country`;
     if (commenter) {
-      await commenter(`ℹ️ ${message}`);
+      await commenter(`❌ ${errorMsg}`);
     }
     return {
-      success: true,
-      message,
+      success: false,
+      message: errorMsg,
     };
   }
 
-  // Step 5: City is different, add new entry with current date
-  const currentDate = getCurrentDate();
+  // Step 2: Read existing location data. An unreadable file aborts the
+  // ingestion so it isn't overwritten with just the new entry.
+  let existingLocations: LocationDataFile;
+  try {
+    existingLocations = await readExistingLocationData(filePath, reader);
+  } catch (error) {
+    if (!(error instanceof LocationDataFileValidationError)) {
+      throw error;
+    }
+
+    const quarantinePath = await quarantineFile(
+      error.filePath,
+      error.content,
+      writer
+    );
+    const errorMsg = `Aborted ingestion: ${error.message}. A copy of the file was saved to ${quarantinePath}`;
+    if (commenter) {
+      await commenter(`❌ ${errorMsg}`);
+    }
+    return {
+      success: false,
+      message: errorMsg,
+    };
+  }
+
+  // Step 3: Work out which day the entry belongs to. A backdated entry was
+  // not logged when the issue was opened, so createdAt says nothing about it.
+  // createdAt is stored as the arrival time, so it needs the same offset
+  // format as arrivedAt and is ignored otherwise.
+  const issueCreatedAt = IssueCreatedAtSchema.safeParse(createdAt);
+  if (createdAt !== undefined && !issueCreatedAt.success) {
+    console.warn(
+      `Ignoring issue creation time "${createdAt}": expected an ISO datetime with an offset`
+    );
+  }
+  const arrivedAt =
+    locationData.arrivedAt ??
+    (locationData.date ? undefined : issueCreatedAt.data);
+  const currentDate =
+    locationData.date ??
+    (arrivedAt ? getArrivalDate(arrivedAt, place.timezone) : getCurrentDate());
   const newEntry: LocationEntry = {
     date: currentDate,
-    city: locationData.city,
-    country: locationData.country,
+    city: place.city,
+    country: place.country,
+    latitude: locationData.latitude,
+    longitude: locationData.longitude,
+    timezone: place.timezone,
+    arrivedAt,
+    source: locationData.source,
   };
 
-  const updatedLocations = [...existingLocations, newEntry];
+  // Step 4: Corrections replace the last entry logged on that date
+  if (locationData.correct) {
+    const index = existingLocations.findLastIndex(
+      (entry) => entry.date === currentDate
+    );
+    if (index === -1) {
+      const errorMsg = `No location entry on ${currentDate} to correct`;
+      if (commenter) {
+        await commenter(`❌ ${errorMsg}`);
+      }
+      return {
+        success: false,
+        message: errorMsg,
+      };
+    }
+
+    const replaced = existingLocations[index];
+    await writer(
+      filePath,
+      JSON.stringify(existingLocations.with(index, newEntry), null, 2)
+    );
+
+    const successMessage = `✅ Corrected location on ${currentDate}: ${replaced.city}, ${replaced.country} → ${place.city}, ${place.country}`;
+    if (commenter) {
+      await commenter(successMessage);
+    }
+    return {
+      success: true,
+      message: successMessage,
+    };
+  }
+
+  // Step 5: Skip the entry if we were already there on that date
+  const insertIndex = findInsertIndex(existingLocations, currentDate);
+  const previousEntry = existingLocations[insertIndex - 1];
+  if (previousEntry && isSamePlace(previousEntry, place)) {
+    const neighbour =
+      insertIndex === existingLocations.length
+        ? "the last entry"
+        : `the entry on ${previousEntry.date}`;
+    const message = `Location not updated: ${place.city}, ${place.country} is the same as ${neighbour}`;
+    if (commenter) {
+      await commenter(`ℹ️ ${message}`);
+    }
+    return {
+      success: true,
+      message,
+    };
+  }
+
+  // Step 6: Insert the entry. A later entry for the same place only recorded
+  // an arrival we now know happened earlier, so it is replaced.
+  const nextEntry = existingLocations[insertIndex];
+  const replacesNext = nextEntry !== undefined && isSamePlace(nextEntry, place);
+  const updatedLocations = existingLocations.toSpliced(
+    insertIndex,
+    replacesNext ? 1 : 0,
+    newEntry
+  );
   const contentToWrite = JSON.stringify(updatedLocations, null, 2);
   
   console.log(`Writing to: ${filePath}`);
@@ -192,7 +457,9 @@ export async function ingestLocationDataFromIssue(
   
   await writer(filePath, contentToWrite);
 
-  const successMessage = `✅ Successfully updated location!\n\nAdded: ${locationData.city}, ${locationData.country} (${currentDate})`;
+  const successMessage = `✅ Successfully updated location!\n\nAdded: ${place.city}, ${place.country} (${currentDate})${
+    replacesNext ? `\nReplaced the later arrival on ${nextEntry.date}` : ""
+  }`;
   if (commenter) {
     await commenter(successMessage);
   }
@@ -202,4 +469,3 @@ export async function ingestLocationDataFromIssue(
     message: successMessage,
   };
 }
-
@@ -0,0 +1,235 @@
+import type { DietMacroEntry } from '@src/diet';
+import type { Measurement } from '@src/measurements';
+import { bucketByWeekAndMonth, round } from '@src/utils';
+
+type MacroRange = { min: number; max: number };
+
+/**
+ * Daily targets from `from` until the next period starts. Protein is set per
+ * kg of body weight so the target follows the latest weight measurement.
+ */
+type MacroTargetPeriod = {
+  from: string;
+  calories: number;
+  proteinPerKg: number;
+  carbs_g: MacroRange;
+  fat_g: MacroRange;
+};
+
+type MacroTargets = {
+  calories: number;
+  // Null until a weight has been measured
+  protein_g: number | null;
+  carbs_g: MacroRange;
+  fat_g: MacroRange;
+};
+
+type MacroDeltas = {
+  calories: number;
+  protein_g: number | null;
+  carbs_g: number;
+  fat_g: number;
+};
+
+type MacroAdherence = {
+  targets: MacroTargets;
+  deltas: MacroDeltas;
+  adherence: number;
+};
+
+type MacroAdherenceBucket = {
+  start: string;
+  end: string;
+  days: number;
+  coverage: number;
+  adherence: number;
+  // Mean of the daily deltas
+  deltas: MacroDeltas;
+};
+
+type MonthlyMacroAdherenceBucket = MacroAdherenceBucket & {
+  month: string;
+  year: string;
+};
+
+type MacroAdherenceSummary = {
+  weeks: Record<string, MacroAdherenceBucket>;
+  months: Record<string, Record<string, MonthlyMacroAdherenceBucket>>;
+};
+
+type ScoredMacroEntry = DietMacroEntry & Partial<MacroAdherence>;
+
+const KG_PER_LB = 0.45359237;
+
+function mean(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0) / values.length;
+}
+
+/**
+ * Weight in kg from the latest measurement on or before the date, falling
+ * back to the first one so days before the first weigh-in still get a target
+ */
+function getWeightOn(date: string, measurements: Measurement[]): number | null {
+  const weights = measurements
+    .filter((measurement) => measurement.type === 'weight')
+    .sort((a, b) => a.date.localeCompare(b.date));
+  const weight =
+    weights.findLast((measurement) => measurement.date <= date) ?? weights[0];
+
+  if (!weight) {
+    return null;
+  }
+
+  return weight.unit === 'lb' ? weight.value * KG_PER_LB : weight.value;
+}
+
+/**
+ * Resolves the targets for a day, or null before the first target period
+ */
+function getMacroTargets(
+  date: string,
+  periods: MacroTargetPeriod[],
+  measurements: Measurement[]
+): MacroTargets | null {
+  const period = [...periods]
+    .sort((a, b) => a.from.localeCompare(b.from))
+    .findLast((candidate) => candidate.from <= date);
+
+  if (!period) {
+    return null;
+  }
+
+  const weight = getWeightOn(date, measurements);
+
+  return {
+    calories: period.calories,
+    protein_g: weight === null ? null : round(period.proteinPerKg * weight, 1),
+    carbs_g: period.carbs_g,
+    fat_g: period.fat_g,
+  };
+}
+
+// How far a value falls outside a range, 0 inside it
+function getRangeDelta(value: number, range: MacroRange): number {
+  if (value < range.min) {
+    return value - range.min;
+  }
+  if (value > range.max) {
+    return value - range.max;
+  }
+  return 0;
+}
+
+/**
+ * Compares a day's totals with its targets. Each macro scores from 0 to 1:
+ * calories by their relative distance from the target, protein by how much of
+ * the minimum was reached, and carbs and fat by their relative distance
+ * outside the range. The adherence score is the mean of those scores.
+ */
+function scoreMacroEntry(
+  entry: DietMacroEntry,
+  targets: MacroTargets
+): MacroAdherence {
+  const deltas: MacroDeltas = {
+    calories: round(entry.calories - targets.calories, 0),
+    protein_g:
+      targets.protein_g === null
+        ? null
+        : round(entry.protein_g - targets.protein_g, 1),
+    carbs_g: round(getRangeDelta(entry.carbs_g, targets.carbs_g), 1),
+    fat_g: round(getRangeDelta(entry.fat_g, targets.fat_g), 1),
+  };
+
+  const closeness = (delta: number, reference: number) =>
+    reference > 0 ? Math.max(1 - Math.abs(delta) / reference, 0) : 1;
+  const rangeReference = (delta: number, range: MacroRange) =>
+    delta < 0 ? range.min : range.max;
+
+  const scores = [
+    closeness(deltas.calories, targets.calories),
+    closeness(deltas.carbs_g, rangeReference(deltas.carbs_g, targets.carbs_g)),
+    closeness(deltas.fat_g, rangeReference(deltas.fat_g, targets.fat_g)),
+  ];
+  if (targets.protein_g !== null) {
+    scores.push(
+      targets.protein_g > 0
+        ? Math.min(entry.protein_g / targets.protein_g, 1)
+        : 1
+    );
+  }
+
+  return { targets, deltas, adherence: round(mean(scores), 2) };
+}
+
+/**
+ * Adds targets, deltas and an adherence score to each entry covered by a
+ * target period
+ */
+function scoreMacroEntries(
+  entries: DietMacroEntry[],
+  periods: MacroTargetPeriod[],
+  measurements: Measurement[]
+): ScoredMacroEntry[] {
+  return entries.map((entry) => {
+    const targets = getMacroTargets(entry.date, periods, measurements);
+    return targets ? { ...entry, ...scoreMacroEntry(entry, targets) } : entry;
+  });
+}
+
+function buildAdherenceBucket(
+  days: (DietMacroEntry & MacroAdherence)[],
+  start: string,
+  end: string,
+  daysInPeriod: number
+): MacroAdherenceBucket {
+  const proteinDeltas = days
+    .map((day) => day.deltas.protein_g)
+    .filter((delta): delta is number => delta !== null);
+
+  return {
+    start,
+    end,
+    days: days.length,
+    coverage: round(days.length / daysInPeriod, 2),
+    adherence: round(mean(days.map((day) => day.adherence)), 2),
+    deltas: {
+      calories: round(mean(days.map((day) => day.deltas.calories)), 0),
+      protein_g:
+        proteinDeltas.length > 0 ? round(mean(proteinDeltas), 1) : null,
+      carbs_g: round(mean(days.map((day) => day.deltas.carbs_g)), 1),
+      fat_g: round(mean(days.map((day) => day.deltas.fat_g)), 1),
+    },
+  };
+}
+
+/**
+ * Averages adherence over ISO weeks and year → month, in the same layout as
+ * the healthkit rollups. Days without targets are left out.
+ */
+function buildMacroAdherenceSummary(
+  entries: ScoredMacroEntry[]
+): MacroAdherenceSummary {
+  const days = entries
+    .filter(
+      (entry): entry is DietMacroEntry & MacroAdherence =>
+        entry.adherence !== undefined
+    )
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  return bucketByWeekAndMonth(days, buildAdherenceBucket);
+}
+
+export {
+  MacroAdherence,
+  MacroAdherenceBucket,
+  MacroAdherenceSummary,
+  MacroDeltas,
+  MacroRange,
+  MacroTargetPeriod,
+  MacroTargets,
+  ScoredMacroEntry,
+  buildMacroAdherenceSummary,
+  getMacroTargets,
+  scoreMacroEntries,
+  scoreMacroEntry,
+};
@@ -1,3 +1,11 @@
+import { z } from "zod";
+import { nonnegativeNumberField, parseIssueBody } from "@src/issue-body";
+import { getCurrentDate } from "@src/time";
+
+type WriterFunction = (path: string, content: string) => Promise<void>;
+type ReaderFunction = (path: string) => Promise<string>;
+type CommentFunction = (comment: string) => Promise<void>;
+
 export const measurementTypes = {
   weight: ["kg", "lb"],
   belly: ["cm", "in"],
@@ -49,7 +57,7 @@ function assertMeasurementType(type: string): asserts type is MeasurementType {
   }
 }
 
-async function readMeasurements(path = measurementsPath): Promise<Measurement[]> {
+export async function readMeasurements(path = measurementsPath): Promise<Measurement[]> {
   return (await Bun.file(path).json()) as Measurement[];
 }
 
@@ -60,13 +68,16 @@ async function writeMeasurements(
   await Bun.write(path, `${JSON.stringify(measurements, null, 2)}\n`);
 }
 
-export async function addMeasurement(
+/**
+ * Adds or updates the measurement for a date and type in memory
+ */
+export function applyMeasurement(
+  measurements: Measurement[],
   date: string,
   type: string,
   rawValue: string | number,
   unit: string,
-  path = measurementsPath,
-): Promise<AddMeasurementResult> {
+): AddMeasurementResult {
   assertValidDate(date);
   assertMeasurementType(type);
 
@@ -82,7 +93,6 @@ export async function addMeasurement(
     throw new Error("Value must be a non-negative number.");
   }
 
-  const measurements = await readMeasurements(path);
   const existing = measurements.find(
     (measurement) => measurement.date === date && measurement.type === type,
   );
@@ -93,7 +103,6 @@ export async function addMeasurement(
     measurements.sort(
       (a, b) => a.date.localeCompare(b.date) || a.type.localeCompare(b.type),
     );
-    await writeMeasurements(measurements, path);
     return {
       message: `Updated ${type} measurement for ${date}`,
       measurements,
@@ -109,10 +118,106 @@ export async function addMeasurement(
   measurements.sort(
     (a, b) => a.date.localeCompare(b.date) || a.type.localeCompare(b.type),
   );
-  await writeMeasurements(measurements, path);
 
   return {
     message: `Added ${type} measurement for ${date}`,
     measurements,
   };
 }
+
+export async function addMeasurement(
+  date: string,
+  type: string,
+  rawValue: string | number,
+  unit: string,
+  path = measurementsPath,
+): Promise<AddMeasurementResult> {
+  const result = applyMeasurement(
+    await readMeasurements(path),
+    date,
+    type,
+    rawValue,
+    unit,
+  );
+  await writeMeasurements(result.measurements, path);
+
+  return result;
+}
+
+const MeasurementLogSchema = z
+  .object({
+    date: z
+      .string()
+      .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must use YYYY-MM-DD format.")
+      .optional(),
+    type: z.enum(
+      Object.keys(measurementTypes) as [MeasurementType, ...MeasurementType[]],
+    ),
+    value: nonnegativeNumberField(),
+    unit: z.string(),
+  })
+  .refine(
+    (log) =>
+      (measurementTypes[log.type] as readonly string[]).includes(log.unit),
+    {
+      message: "Unit is not allowed for this measurement type",
+      path: ["unit"],
+    },
+  );
+
+export type MeasurementLog = z.infer<typeof MeasurementLogSchema>;
+
+/**
+ * Parses a MeasurementLog issue body. The date defaults to today.
+ */
+export function parseMeasurementLog(body: string) {
+  return parseIssueBody(body, MeasurementLogSchema, "measurement log");
+}
+
+/**
+ * Records a measurement from a MeasurementLog issue and confirms it with a
+ * comment
+ */
+export async function ingestMeasurementLog(
+  log: MeasurementLog,
+  writer: WriterFunction,
+  reader: ReaderFunction,
+  commenter?: CommentFunction,
+  path = measurementsPath,
+): Promise<{ success: boolean; message: string }> {
+  let content: string | null;
+  try {
+    content = await reader(path);
+  } catch (error) {
+    // File doesn't exist, start fresh
+    content = null;
+  }
+
+  let result: AddMeasurementResult;
+  try {
+    const measurements =
+      content === null ? [] : (JSON.parse(content) as Measurement[]);
+    result = applyMeasurement(
+      measurements,
+      log.date ?? getCurrentDate(),
+      log.type,
+      log.value,
+      log.unit,
+    );
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    if (commenter) {
+      await commenter(`❌ ${errorMsg}`);
+    }
+    return { success: false, message: errorMsg };
+  }
+
+  await writer(path, `${JSON.stringify(result.measurements, null, 2)}\n`);
+
+  const message = `✅ ${result.message}: ${log.value} ${log.unit}`;
+  if (commenter) {
+    await commenter(message);
+  }
+
+  return { success: true, message };
+}
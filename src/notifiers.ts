@@ -0,0 +1,208 @@
+import axios from 'axios';
+import type { GitHubIssueClient } from '@src/github';
+import { sendMail, SmtpOptions } from '@src/smtp';
+
+/**
+ * A destination for ingestion results and reports. Sinks receive the same
+ * markdown message the GitHub comment would show.
+ */
+export type NotificationSink = {
+  name: string;
+  send: (message: string, subject: string) => Promise<void>;
+};
+
+/**
+ * Sends a message to every configured sink. It has the same shape as the
+ * commenter passed into ingestion, so it can be used in its place.
+ */
+export type Notifier = (message: string, subject?: string) => Promise<void>;
+
+/**
+ * Sinks as they appear in config. Secrets and addresses that differ between
+ * machines are read from the named environment variables.
+ */
+export type NotificationSinkConfig =
+  | { type: 'github' }
+  | { type: 'webhook'; urlEnv: string; headers?: Record<string, string> }
+  | {
+      type: 'smtp';
+      hostEnv: string;
+      port: number;
+      secure?: boolean;
+      usernameEnv?: string;
+      passwordEnv?: string;
+      from: string;
+      to: string[];
+    }
+  | { type: 'stdout'; format?: 'text' | 'jsonl' };
+
+export type NotificationFailure = { sink: string; error: unknown };
+
+export const DEFAULT_NOTIFICATION_SUBJECT = 'state-of-being';
+
+/**
+ * Posts to the issue being processed, editing its status comment
+ */
+export function createGitHubSink(client: GitHubIssueClient): NotificationSink {
+  return {
+    name: 'github',
+    send: (message) => client.upsertStatusComment(message),
+  };
+}
+
+/**
+ * POSTs `{ subject, message, timestamp }` as JSON to a URL
+ */
+export function createWebhookSink(
+  url: string,
+  headers: Record<string, string> = {}
+): NotificationSink {
+  return {
+    name: 'webhook',
+    async send(message, subject) {
+      await axios.post(
+        url,
+        { subject, message, timestamp: new Date().toISOString() },
+        { headers }
+      );
+    },
+  };
+}
+
+export function createSmtpSink(
+  options: SmtpOptions,
+  addresses: { from: string; to: string[] }
+): NotificationSink {
+  return {
+    name: 'smtp',
+    send: (message, subject) =>
+      sendMail(options, { ...addresses, subject, text: message }),
+  };
+}
+
+/**
+ * Prints messages as they are, or as one JSON object per line for piping
+ * into log collectors
+ */
+export function createStdoutSink(
+  format: 'text' | 'jsonl' = 'text',
+  write: (chunk: string) => void = (chunk) => process.stdout.write(chunk)
+): NotificationSink {
+  return {
+    name: 'stdout',
+    async send(message, subject) {
+      write(
+        format === 'jsonl'
+          ? `${JSON.stringify({
+              timestamp: new Date().toISOString(),
+              subject,
+              message,
+            })}\n`
+          : `${message}\n`
+      );
+    },
+  };
+}
+
+/**
+ * Builds sinks from config. GitHub sinks need a client and are skipped when
+ * there is no issue to post to; sinks whose environment variables are unset
+ * are skipped with a warning.
+ */
+export function createNotificationSinks(
+  configs: NotificationSinkConfig[],
+  {
+    githubClient = null,
+    env = process.env,
+  }: {
+    githubClient?: GitHubIssueClient | null;
+    env?: Record<string, string | undefined>;
+  } = {}
+): NotificationSink[] {
+  const sinks: NotificationSink[] = [];
+
+  for (const sinkConfig of configs) {
+    switch (sinkConfig.type) {
+      case 'github':
+        if (githubClient) {
+          sinks.push(createGitHubSink(githubClient));
+        }
+        break;
+
+      case 'webhook': {
+        const url = env[sinkConfig.urlEnv];
+        if (!url) {
+          console.warn(
+            `Skipping webhook sink: ${sinkConfig.urlEnv} is not set`
+          );
+          break;
+        }
+        sinks.push(createWebhookSink(url, sinkConfig.headers));
+        break;
+      }
+
+      case 'smtp': {
+        const host = env[sinkConfig.hostEnv];
+        if (!host) {
+          console.warn(`Skipping smtp sink: ${sinkConfig.hostEnv} is not set`);
+          break;
+        }
+        sinks.push(
+          createSmtpSink(
+            {
+              host,
+              port: sinkConfig.port,
+              secure: sinkConfig.secure,
+              username: sinkConfig.usernameEnv
+                ? env[sinkConfig.usernameEnv]
+                : undefined,
+              password: sinkConfig.passwordEnv
+                ? env[sinkConfig.passwordEnv]
+                : undefined,
+            },
+            { from: sinkConfig.from, to: sinkConfig.to }
+          )
+        );
+        break;
+      }
+
+      case 'stdout':
+        sinks.push(createStdoutSink(sinkConfig.format));
+        break;
+    }
+  }
+
+  return sinks;
+}
+
+/**
+ * Sends a message to all sinks at once and reports the ones that failed
+ */
+export async function sendNotification(
+  sinks: NotificationSink[],
+  message: string,
+  subject: string = DEFAULT_NOTIFICATION_SUBJECT
+): Promise<NotificationFailure[]> {
+  const results = await Promise.allSettled(
+    sinks.map((sink) => sink.send(message, subject))
+  );
+
+  return results.flatMap((result, index) =>
+    result.status === 'rejected'
+      ? [{ sink: sinks[index].name, error: result.reason }]
+      : []
+  );
+}
+
+/**
+ * Creates a notifier for ingestion. Failures are logged rather than thrown so
+ * an unreachable sink never breaks ingestion.
+ */
+export function createNotifier(sinks: NotificationSink[]): Notifier {
+  return async (message, subject) => {
+    const failures = await sendNotification(sinks, message, subject);
+    failures.forEach(({ sink, error }) =>
+      console.error(`Failed to notify ${sink}:`, error)
+    );
+  };
+}
@@ -0,0 +1,230 @@
+import config from '@src/config';
+import { dietLogsPath, ingestDietLogEntry, parseDietLogEntry } from '@src/diet';
+import { ingestHealthData, parseHealthData } from '@src/healthkit';
+import { ingestLocationData, parseLocationData } from '@src/location';
+import {
+  ingestMeasurementLog,
+  measurementsPath,
+  parseMeasurementLog,
+} from '@src/measurements';
+import { ingestWorkoutLog, parseWorkoutLog, workoutsPath } from '@src/workouts';
+
+type WriterFunction = (path: string, content: string) => Promise<void>;
+type ReaderFunction = (path: string) => Promise<string>;
+type CommentFunction = (comment: string) => Promise<void>;
+
+/**
+ * `partial` is set when an ingest failed after saving some of its data
+ */
+export type ProcessorResult = {
+  success: boolean;
+  message: string;
+  partial?: boolean;
+};
+
+export type ProcessorIssue = {
+  title: string;
+  body: string;
+  createdAt?: string;
+  labels?: string[];
+};
+
+export type ProcessorContext = {
+  issue: ProcessorIssue;
+  writer: WriterFunction;
+  reader: ReaderFunction;
+  commenter?: CommentFunction;
+};
+
+/**
+ * Which issues a processor handles. An issue matches when any of the given
+ * conditions holds.
+ */
+export type IssueMatcher = {
+  title?: string;
+  titlePrefix?: string;
+  label?: string;
+};
+
+/**
+ * Everything process-issue needs to handle one kind of issue
+ */
+export type IssueProcessor<TData = any> = {
+  name: string;
+  match: IssueMatcher;
+  parse: (body: string) => { success: boolean; data?: TData; error?: string };
+  ingest: (data: TData, context: ProcessorContext) => Promise<ProcessorResult>;
+};
+
+export function defineProcessor<TData>(
+  processor: IssueProcessor<TData>
+): IssueProcessor<TData> {
+  return processor;
+}
+
+export const healthDataProcessor = defineProcessor({
+  name: 'HealthDataExport',
+  match: { title: 'HealthDataExport' },
+  parse: parseHealthData,
+  ingest: (data, { writer, reader, commenter }) =>
+    ingestHealthData(
+      data,
+      writer,
+      reader,
+      commenter,
+      config.healthkitFolderPath,
+      workoutsPath
+    ),
+});
+
+export const locationDataProcessor = defineProcessor({
+  name: 'LocationDataExport',
+  match: { title: 'LocationDataExport' },
+  parse: parseLocationData,
+  ingest: (data, { issue, writer, reader, commenter }) =>
+    ingestLocationData(
+      data,
+      writer,
+      reader,
+      commenter,
+      config.locationFilePath,
+      issue.createdAt
+    ),
+});
+
+export const workoutLogProcessor = defineProcessor({
+  name: 'WorkoutLog',
+  match: { title: 'WorkoutLog' },
+  parse: parseWorkoutLog,
+  ingest: (data, { writer, reader, commenter }) =>
+    ingestWorkoutLog(data, writer, reader, commenter, workoutsPath),
+});
+
+export const measurementLogProcessor = defineProcessor({
+  name: 'MeasurementLog',
+  match: { title: 'MeasurementLog' },
+  parse: parseMeasurementLog,
+  ingest: (data, { writer, reader, commenter }) =>
+    ingestMeasurementLog(data, writer, reader, commenter, measurementsPath),
+});
+
+export const dietLogProcessor = defineProcessor({
+  name: 'DietLog',
+  match: { title: 'DietLog' },
+  parse: parseDietLogEntry,
+  ingest: (data, { issue, writer, reader, commenter }) =>
+    ingestDietLogEntry(
+      data,
+      writer,
+      reader,
+      commenter,
+      dietLogsPath,
+      issue.createdAt
+    ),
+});
+
+const registry = new Map<string, IssueProcessor>();
+
+/**
+ * Adds a processor to the registry. Re-registering a name replaces the
+ * previous processor; matching follows registration order.
+ */
+export function registerProcessor(processor: IssueProcessor): void {
+  registry.set(processor.name, processor);
+}
+
+/**
+ * Removes a processor from the registry, returning whether it was registered
+ */
+export function unregisterProcessor(name: string): boolean {
+  return registry.delete(name);
+}
+
+export function getProcessor(name: string): IssueProcessor | null {
+  return registry.get(name) ?? null;
+}
+
+export function listProcessors(): IssueProcessor[] {
+  return [...registry.values()];
+}
+
+function matchesIssue(match: IssueMatcher, issue: ProcessorIssue): boolean {
+  return (
+    (match.title !== undefined && issue.title === match.title) ||
+    (match.titlePrefix !== undefined &&
+      issue.title.startsWith(match.titlePrefix)) ||
+    (match.label !== undefined && (issue.labels ?? []).includes(match.label))
+  );
+}
+
+export function findProcessorForIssue(
+  issue: ProcessorIssue
+): IssueProcessor | null {
+  return (
+    listProcessors().find((processor) =>
+      matchesIssue(processor.match, issue)
+    ) ?? null
+  );
+}
+
+/**
+ * Parses an issue body with a processor and ingests the result
+ */
+export async function runProcessor(
+  processor: IssueProcessor,
+  context: ProcessorContext
+): Promise<ProcessorResult> {
+  const parseResult = processor.parse(context.issue.body);
+  if (!parseResult.success || parseResult.data === undefined) {
+    const errorMsg =
+      parseResult.error || `Failed to parse ${processor.name} data`;
+    if (context.commenter) {
+      await context.commenter(`❌ ${errorMsg}`);
+    }
+    return {
+      success: false,
+      message: errorMsg,
+    };
+  }
+
+  return processor.ingest(parseResult.data, context);
+}
+
+/**
+ * Routes an issue to the first registered processor that matches it
+ */
+export async function processIssue(
+  issue: ProcessorIssue,
+  writer: WriterFunction,
+  reader: ReaderFunction,
+  commenter?: CommentFunction
+): Promise<ProcessorResult> {
+  const processor = findProcessorForIssue(issue);
+
+  if (!processor) {
+    const names = listProcessors().map((registered) => `"${registered.name}"`);
+    const expected =
+      names.length > 1
+        ? `${names.slice(0, -1).join(', ')} or ${names[names.length - 1]}`
+        : names.join('');
+    const errorMsg = `Unknown issue type: ${issue.title}. Expected ${expected}`;
+    console.error(errorMsg);
+    if (commenter) {
+      await commenter(`❌ ${errorMsg}`);
+    }
+    return {
+      success: false,
+      message: errorMsg,
+    };
+  }
+
+  return runProcessor(processor, { issue, writer, reader, commenter });
+}
+
+[
+  healthDataProcessor,
+  locationDataProcessor,
+  workoutLogProcessor,
+  measurementLogProcessor,
+  dietLogProcessor,
+].forEach((processor) => registerProcessor(processor));
@@ -0,0 +1,218 @@
+import { mkdir } from 'node:fs/promises';
+import config from '@src/config';
+import {
+  buildMergedDailyView,
+  readExistingData,
+  SourcePriorityPolicy,
+} from '@src/healthkit';
+import {
+  HealthMetricData,
+  listMetricDefinitions,
+  MetricDefinition,
+} from '@src/healthkit-metrics';
+import { getHealthKitLocalDate } from '@src/time';
+import { bucketByWeekAndMonth, round } from '@src/utils';
+import { readVaultFile } from '@src/vault-io';
+
+type RollupStats = {
+  min: number;
+  max: number;
+  mean: number;
+  median: number;
+  p10: number;
+  p90: number;
+  count: number;
+};
+
+type RollupBucket = {
+  start: string;
+  end: string;
+  coverage: number;
+  fields: Record<string, RollupStats>;
+};
+
+type MonthlyRollupBucket = RollupBucket & {
+  month: string;
+  year: string;
+};
+
+type MetricRollup = {
+  metric: string;
+  units: string;
+  weeks: Record<string, RollupBucket>;
+  months: Record<string, Record<string, MonthlyRollupBucket>>;
+};
+
+type DailyValue = {
+  date: string;
+  values: Record<string, number>;
+};
+
+type GenerateHealthkitRollupsOptions = {
+  healthkitDir?: string;
+  saveDir?: string;
+  sourcePriority?: SourcePriorityPolicy;
+};
+
+/**
+ * Linear interpolation between closest ranks, on already sorted values
+ */
+function getPercentile(sortedValues: number[], percentile: number): number {
+  const rank = (sortedValues.length - 1) * percentile;
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return (
+    sortedValues[lower] +
+    (sortedValues[upper] - sortedValues[lower]) * (rank - lower)
+  );
+}
+
+function getStats(values: number[]): RollupStats {
+  const sorted = [...values].sort((a, b) => a - b);
+  const sum = sorted.reduce((total, value) => total + value, 0);
+
+  return {
+    min: round(sorted[0], 2),
+    max: round(sorted[sorted.length - 1], 2),
+    mean: round(sum / sorted.length, 2),
+    median: round(getPercentile(sorted, 0.5), 2),
+    p10: round(getPercentile(sorted, 0.1), 2),
+    p90: round(getPercentile(sorted, 0.9), 2),
+    count: sorted.length,
+  };
+}
+
+/**
+ * Reduces a metric's raw rows to one value per field per local day. The
+ * preferred source for each day is picked by the source priority policy and
+ * that source's rows are combined with the metric's aggregation rule.
+ */
+function getDailyValues(
+  rows: HealthMetricData[],
+  definition: MetricDefinition,
+  sourcePriority: SourcePriorityPolicy
+): DailyValue[] {
+  const preferredRows = buildMergedDailyView(
+    rows,
+    definition.name,
+    sourcePriority
+  );
+
+  return preferredRows.map((preferred) => {
+    const date = getHealthKitLocalDate(preferred.date);
+    const sameDayRows = rows.filter(
+      (row) =>
+        getHealthKitLocalDate(row.date) === date &&
+        row.source === preferred.source
+    ) as Record<string, unknown>[];
+
+    const values: Record<string, number> = {};
+    for (const field of definition.aggregation.fields) {
+      const fieldValues = sameDayRows
+        .map((row) => row[field])
+        .filter((value): value is number => typeof value === 'number');
+      if (fieldValues.length === 0) {
+        continue;
+      }
+
+      const sum = fieldValues.reduce((total, value) => total + value, 0);
+      values[field] =
+        definition.aggregation.combine === 'sum'
+          ? sum
+          : sum / fieldValues.length;
+    }
+
+    return { date, values };
+  });
+}
+
+function buildBucket(
+  days: DailyValue[],
+  start: string,
+  end: string,
+  daysInPeriod: number,
+  fields: string[]
+): RollupBucket {
+  const bucketFields: Record<string, RollupStats> = {};
+  for (const field of fields) {
+    const values = days
+      .map((day) => day.values[field])
+      .filter((value) => value !== undefined);
+    if (values.length > 0) {
+      bucketFields[field] = getStats(values);
+    }
+  }
+
+  return {
+    start,
+    end,
+    coverage: round(days.length / daysInPeriod, 2),
+    fields: bucketFields,
+  };
+}
+
+/**
+ * Builds ISO week and year → month rollups for a metric's rows
+ */
+function buildMetricRollup(
+  rows: HealthMetricData[],
+  definition: MetricDefinition,
+  sourcePriority: SourcePriorityPolicy
+): MetricRollup {
+  const days = getDailyValues(rows, definition, sourcePriority);
+  const fields = definition.aggregation.fields;
+  const { weeks, months } = bucketByWeekAndMonth(
+    days,
+    (periodDays, start, end, daysInPeriod) =>
+      buildBucket(periodDays, start, end, daysInPeriod, fields)
+  );
+
+  return {
+    metric: definition.name,
+    units: definition.units,
+    weeks,
+    months,
+  };
+}
+
+async function generateHealthkitRollups({
+  healthkitDir = config.healthkitFolderPath,
+  saveDir = `${config.healthkitFolderPath}/rollups`,
+  sourcePriority = config.healthkitSourcePriority,
+}: GenerateHealthkitRollupsOptions = {}) {
+  await mkdir(saveDir, { recursive: true });
+
+  const written: string[] = [];
+  for (const definition of listMetricDefinitions()) {
+    const { metrics } = await readExistingData(
+      `${healthkitDir}/${definition.fileName}`,
+      readVaultFile,
+      definition
+    );
+
+    if (metrics.length === 0) {
+      continue;
+    }
+
+    const rollup = buildMetricRollup(metrics, definition, sourcePriority);
+    await Bun.write(
+      `${saveDir}/${definition.fileName}`,
+      `${JSON.stringify(rollup, null, 2)}\n`
+    );
+    written.push(definition.fileName);
+  }
+
+  return {
+    saveDir,
+    files: written,
+    msg: 'Healthkit rollups generated',
+  };
+}
+
+export {
+  MetricRollup,
+  RollupBucket,
+  RollupStats,
+  buildMetricRollup,
+  generateHealthkitRollups,
+};
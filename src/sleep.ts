@@ -0,0 +1,230 @@
+import config from '@src/config';
+import {
+  buildMergedDailyView,
+  readExistingData,
+  SourcePriorityPolicy,
+} from '@src/healthkit';
+import { SleepAnalysisData, sleepAnalysisMetric } from '@src/healthkit-metrics';
+import {
+  addDaysToIsoDate,
+  formatLocalTime,
+  HealthKitDate,
+  parseHealthKitDate,
+} from '@src/time';
+import { round } from '@src/utils';
+import { readVaultFile } from '@src/vault-io';
+
+type SleepStagePercentages = {
+  deep: number;
+  rem: number;
+  core: number;
+  awake: number;
+};
+
+type SleepDailyEntry = {
+  date: string;
+  source: string | null;
+  bedtime: string | null;
+  wakeTime: string | null;
+  midpoint: string | null;
+  totalSleepHours: number;
+  timeInBedHours: number | null;
+  efficiency: number | null;
+  stages: SleepStagePercentages | null;
+  sleepDebtHours: number;
+  trailingSleepDebtHours: number;
+  consistencyScore: number | null;
+};
+
+type SleepDailyIndex = Record<string, SleepDailyEntry>;
+
+type GenerateSleepDailyIndexOptions = {
+  sleepPath?: string;
+  savePath?: string;
+  targetHours?: number;
+  sourcePriority?: SourcePriorityPolicy;
+};
+
+const TRAILING_DAYS = 7;
+
+// Average spread (in minutes) of bedtime and wake time at which the
+// consistency score bottoms out at 0
+const CONSISTENCY_SPREAD_LIMIT_MINUTES = 90;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function parseOptionalDate(value?: string): HealthKitDate | null {
+  return value ? parseHealthKitDate(value) : null;
+}
+
+function getHoursBetween(
+  start: HealthKitDate | null,
+  end: HealthKitDate | null
+): number | null {
+  if (!start || !end || end.instant <= start.instant) {
+    return null;
+  }
+  return (end.instant - start.instant) / HOUR_MS;
+}
+
+function getStagePercentages(
+  night: SleepAnalysisData
+): SleepStagePercentages | null {
+  const total = (night.totalSleep ?? 0) + (night.awake ?? 0);
+  if (total <= 0) {
+    return null;
+  }
+
+  const percentOf = (hours?: number) => round(((hours ?? 0) / total) * 100, 1);
+
+  return {
+    deep: percentOf(night.deep),
+    rem: percentOf(night.rem),
+    core: percentOf(night.core),
+    awake: percentOf(night.awake),
+  };
+}
+
+function getMinutesOfDay(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+function getStandardDeviation(values: number[]): number {
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  const variance =
+    values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length;
+  return Math.sqrt(variance);
+}
+
+/**
+ * Scores how regular bedtime and wake time were over a set of nights, from
+ * 100 (same times every night) down to 0. Bedtimes are measured from noon so
+ * that 23:30 and 00:30 count as an hour apart rather than 23 hours.
+ */
+function getConsistencyScore(entries: SleepDailyEntry[]): number | null {
+  const timed = entries.filter(
+    (entry) => entry.bedtime !== null && entry.wakeTime !== null
+  );
+  if (timed.length < 2) {
+    return null;
+  }
+
+  const bedtimeSpread = getStandardDeviation(
+    timed.map(
+      (entry) =>
+        (getMinutesOfDay(entry.bedtime!) - 12 * 60 + 24 * 60) % (24 * 60)
+    )
+  );
+  const wakeTimeSpread = getStandardDeviation(
+    timed.map((entry) => getMinutesOfDay(entry.wakeTime!))
+  );
+  const averageSpread = (bedtimeSpread + wakeTimeSpread) / 2;
+
+  return Math.round(
+    Math.max(0, 1 - averageSpread / CONSISTENCY_SPREAD_LIMIT_MINUTES) * 100
+  );
+}
+
+/**
+ * Summarises a single night of sleep_analysis data
+ */
+function summarizeNight(
+  night: SleepAnalysisData,
+  targetHours: number
+): SleepDailyEntry {
+  const date =
+    parseHealthKitDate(night.date)?.localDate ?? night.date.slice(0, 10);
+  const sleepStart = parseOptionalDate(night.sleepStart ?? night.inBedStart);
+  const sleepEnd = parseOptionalDate(night.sleepEnd ?? night.inBedEnd);
+  const inBedStart = parseOptionalDate(night.inBedStart ?? night.sleepStart);
+  const inBedEnd = parseOptionalDate(night.inBedEnd ?? night.sleepEnd);
+  const totalSleepHours = night.totalSleep ?? 0;
+  const timeInBedHours = getHoursBetween(inBedStart, inBedEnd);
+
+  const midpoint =
+    sleepStart && sleepEnd && sleepEnd.instant > sleepStart.instant
+      ? formatLocalTime(
+          (sleepStart.instant + sleepEnd.instant) / 2,
+          sleepEnd.offsetMinutes
+        )
+      : null;
+
+  return {
+    date,
+    source: night.source ?? null,
+    bedtime: sleepStart?.localTime ?? null,
+    wakeTime: sleepEnd?.localTime ?? null,
+    midpoint,
+    totalSleepHours: round(totalSleepHours, 2),
+    timeInBedHours: timeInBedHours === null ? null : round(timeInBedHours, 2),
+    efficiency: timeInBedHours
+      ? round(Math.min(totalSleepHours / timeInBedHours, 1) * 100, 1)
+      : null,
+    stages: getStagePercentages(night),
+    sleepDebtHours: round(targetHours - totalSleepHours, 2),
+    trailingSleepDebtHours: 0,
+    consistencyScore: null,
+  };
+}
+
+/**
+ * Builds one summary per night, with sleep debt and consistency measured over
+ * the trailing 7 calendar days (including the night itself)
+ */
+function buildSleepDailyIndex(
+  nights: SleepAnalysisData[],
+  targetHours: number
+): SleepDailyIndex {
+  const entries = nights.map((night) => summarizeNight(night, targetHours));
+
+  for (const entry of entries) {
+    const windowStart = addDaysToIsoDate(entry.date, -(TRAILING_DAYS - 1));
+    const trailing = entries.filter(
+      (other) => other.date >= windowStart && other.date <= entry.date
+    );
+
+    entry.trailingSleepDebtHours = round(
+      trailing.reduce((sum, other) => sum + other.sleepDebtHours, 0),
+      2
+    );
+    entry.consistencyScore = getConsistencyScore(trailing);
+  }
+
+  return Object.fromEntries(entries.map((entry) => [entry.date, entry]));
+}
+
+async function generateSleepDailyIndex({
+  sleepPath = `${config.healthkitFolderPath}/${sleepAnalysisMetric.fileName}`,
+  savePath = `${config.healthkitFolderPath}/sleep-daily.json`,
+  targetHours = config.sleepTargetHours,
+  sourcePriority = config.healthkitSourcePriority,
+}: GenerateSleepDailyIndexOptions = {}) {
+  const sleepData = await readExistingData(
+    sleepPath,
+    readVaultFile,
+    sleepAnalysisMetric
+  );
+
+  const nights = buildMergedDailyView(
+    sleepData.metrics as SleepAnalysisData[],
+    sleepAnalysisMetric.name,
+    sourcePriority
+  );
+  const index = buildSleepDailyIndex(nights, targetHours);
+
+  await Bun.write(savePath, `${JSON.stringify(index, null, 2)}\n`);
+
+  return {
+    savePath,
+    count: Object.keys(index).length,
+    msg: 'Sleep daily index generated',
+  };
+}
+
+export {
+  SleepDailyEntry,
+  SleepDailyIndex,
+  buildSleepDailyIndex,
+  generateSleepDailyIndex,
+};
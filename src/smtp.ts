@@ -0,0 +1,219 @@
+import net from 'node:net';
+import tls from 'node:tls';
+
+/**
+ * Connection settings for a mail server. `secure` connects over TLS from the
+ * start (usually port 465); STARTTLS upgrades are not supported, so plain
+ * connections are only suitable for local relays.
+ */
+export type SmtpOptions = {
+  host: string;
+  port: number;
+  secure?: boolean;
+  username?: string;
+  password?: string;
+  clientName?: string;
+  timeoutMs?: number;
+};
+
+export type MailMessage = {
+  from: string;
+  to: string[];
+  subject: string;
+  text: string;
+};
+
+type SmtpReply = { code: number; message: string };
+
+/**
+ * Raised when the server rejects a command or the connection fails. `code` is
+ * the SMTP reply code, or null when the server never answered.
+ */
+export class SmtpError extends Error {
+  constructor(
+    message: string,
+    public readonly code: number | null
+  ) {
+    super(message);
+    this.name = 'SmtpError';
+  }
+}
+
+/**
+ * Wraps a socket so replies can be awaited one at a time. Multi-line replies
+ * (`250-...` followed by `250 ...`) are joined into a single reply.
+ */
+function createSession(socket: net.Socket, timeoutMs: number) {
+  const replies: SmtpReply[] = [];
+  let buffer = '';
+  let pendingLines: string[] = [];
+  let failure: Error | null = null;
+  let waiting: {
+    resolve: (reply: SmtpReply) => void;
+    reject: (error: Error) => void;
+  } | null = null;
+
+  function settle() {
+    if (!waiting) {
+      return;
+    }
+    const current = waiting;
+    if (replies.length > 0) {
+      waiting = null;
+      current.resolve(replies.shift()!);
+    } else if (failure) {
+      waiting = null;
+      current.reject(failure);
+    }
+  }
+
+  function fail(error: Error) {
+    failure ??= error;
+    settle();
+  }
+
+  socket.setEncoding('utf8');
+  socket.setTimeout(timeoutMs, () => {
+    fail(
+      new SmtpError(`SMTP server did not answer within ${timeoutMs}ms`, null)
+    );
+    socket.destroy();
+  });
+  socket.on('error', (error) => fail(new SmtpError(error.message, null)));
+  socket.on('close', () => fail(new SmtpError('SMTP connection closed', null)));
+  socket.on('data', (chunk: string) => {
+    buffer += chunk;
+    let lineEnd: number;
+    while ((lineEnd = buffer.indexOf('\r\n')) !== -1) {
+      const line = buffer.slice(0, lineEnd);
+      buffer = buffer.slice(lineEnd + 2);
+      pendingLines.push(line);
+
+      if (line.charAt(3) !== '-') {
+        replies.push({
+          code: Number(line.slice(0, 3)),
+          message: pendingLines.map((pending) => pending.slice(4)).join('\n'),
+        });
+        pendingLines = [];
+      }
+    }
+    settle();
+  });
+
+  function readReply(): Promise<SmtpReply> {
+    return new Promise((resolve, reject) => {
+      waiting = { resolve, reject };
+      settle();
+    });
+  }
+
+  async function expectReply(
+    expected: number[],
+    context: string
+  ): Promise<SmtpReply> {
+    const reply = await readReply();
+    if (!expected.includes(reply.code)) {
+      throw new SmtpError(
+        `SMTP ${context} failed: ${reply.code} ${reply.message}`,
+        reply.code
+      );
+    }
+    return reply;
+  }
+
+  async function command(
+    line: string,
+    expected: number[],
+    context = line.split(' ')[0]
+  ): Promise<SmtpReply> {
+    socket.write(`${line}\r\n`);
+    return expectReply(expected, context);
+  }
+
+  return { expectReply, command };
+}
+
+// Non-ASCII subjects (emoji included) must be encoded as a MIME word
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value)
+    ? value
+    : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+}
+
+/**
+ * Builds the DATA payload: headers, a blank line and the body with CRLF line
+ * endings and leading dots doubled so no line ends the message early
+ */
+export function formatMailMessage(
+  message: MailMessage,
+  date = new Date()
+): string {
+  const headers = [
+    `From: ${message.from}`,
+    `To: ${message.to.join(', ')}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${date.toUTCString()}`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: 8bit',
+  ];
+  const body = message.text
+    .split(/\r?\n/)
+    .map((line) => (line.startsWith('.') ? `.${line}` : line));
+
+  return [...headers, '', ...body].join('\r\n');
+}
+
+/**
+ * Delivers a plain-text message with a single SMTP conversation, using
+ * AUTH LOGIN when credentials are given
+ */
+export async function sendMail(
+  options: SmtpOptions,
+  message: MailMessage
+): Promise<void> {
+  const { host, port, secure = false, timeoutMs = 10_000 } = options;
+  const socket = secure
+    ? tls.connect({ host, port, servername: host })
+    : net.connect({ host, port });
+  const session = createSession(socket, timeoutMs);
+
+  try {
+    await session.expectReply([220], 'greeting');
+    await session.command(
+      `EHLO ${options.clientName ?? 'localhost'}`,
+      [250],
+      'EHLO'
+    );
+
+    if (options.username !== undefined && options.password !== undefined) {
+      await session.command('AUTH LOGIN', [334]);
+      await session.command(
+        Buffer.from(options.username).toString('base64'),
+        [334],
+        'AUTH username'
+      );
+      await session.command(
+        Buffer.from(options.password).toString('base64'),
+        [235],
+        'AUTH password'
+      );
+    }
+
+    await session.command(`MAIL FROM:<${message.from}>`, [250], 'MAIL FROM');
+    for (const recipient of message.to) {
+      await session.command(`RCPT TO:<${recipient}>`, [250, 251], 'RCPT TO');
+    }
+    await session.command('DATA', [354]);
+    await session.command(
+      `${formatMailMessage(message)}\r\n.`,
+      [250],
+      'message'
+    );
+    // The message is accepted at this point, so a server hanging up early
+    // is not a delivery failure
+    await session.command('QUIT', [221]).catch(() => {});
+  } finally {
+    socket.destroy();
+  }
+}
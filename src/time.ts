@@ -152,15 +152,185 @@ function getPreviousMonthAndYear(
   }
 }
 
+type HealthKitDate = {
+  raw: string;
+  instant: number; // Milliseconds since epoch
+  iso: string; // Canonical UTC timestamp
+  localDate: string; // Calendar day (YYYY-MM-DD) in the recorded offset
+  localTime: string; // Wall clock time (HH:MM) in the recorded offset
+  offsetMinutes: number;
+};
+
+const HEALTHKIT_DATE_PATTERN =
+  /^(\d{4})-(\d{2})-(\d{2})[ T](\d{2}):(\d{2})(?::(\d{2}))?\s*(Z|[+-]\d{2}:?\d{2})?$/;
+
+/**
+ * Parses HealthKit timestamps like "2024-11-01 00:57:00 +0530" into a canonical
+ * instant plus the local calendar day they were recorded in. Timestamps
+ * without an offset are treated as UTC. Returns null for unparseable input.
+ */
+function parseHealthKitDate(value: string): HealthKitDate | null {
+  const match = value.trim().match(HEALTHKIT_DATE_PATTERN);
+  if (!match) {
+    return null;
+  }
+
+  const [, year, month, day, hours, minutes, seconds = "00", offset = "Z"] =
+    match;
+
+  let offsetMinutes = 0;
+  if (offset !== "Z") {
+    const digits = offset.replace(":", "");
+    const sign = digits.startsWith("-") ? -1 : 1;
+    offsetMinutes =
+      sign * (Number(digits.slice(1, 3)) * 60 + Number(digits.slice(3, 5)));
+  }
+
+  const localMillis = Date.UTC(
+    Number(year),
+    Number(month) - 1,
+    Number(day),
+    Number(hours),
+    Number(minutes),
+    Number(seconds),
+  );
+  const localCheck = new Date(localMillis);
+  if (
+    localCheck.getUTCFullYear() !== Number(year) ||
+    localCheck.getUTCMonth() !== Number(month) - 1 ||
+    localCheck.getUTCDate() !== Number(day)
+  ) {
+    return null;
+  }
+
+  const instant = localMillis - offsetMinutes * 60 * 1000;
+
+  return {
+    raw: value,
+    instant,
+    iso: new Date(instant).toISOString(),
+    localDate: `${year}-${month}-${day}`,
+    localTime: `${hours}:${minutes}`,
+    offsetMinutes,
+  };
+}
+
+/**
+ * Orders HealthKit timestamps by instant, falling back to string order for
+ * values that can't be parsed
+ */
+function compareHealthKitDates(a: string, b: string): number {
+  const parsedA = parseHealthKitDate(a);
+  const parsedB = parseHealthKitDate(b);
+
+  if (parsedA && parsedB && parsedA.instant !== parsedB.instant) {
+    return parsedA.instant - parsedB.instant;
+  }
+
+  return a.localeCompare(b);
+}
+
+/**
+ * Gets the local calendar day a HealthKit timestamp was recorded in
+ */
+function getHealthKitLocalDate(value: string): string {
+  return parseHealthKitDate(value)?.localDate ?? value.slice(0, 10);
+}
+
+/**
+ * Formats an instant as wall clock time (HH:MM) at the given UTC offset
+ */
+function formatLocalTime(instant: number, offsetMinutes: number): string {
+  const local = new Date(instant + offsetMinutes * 60 * 1000);
+  const hours = String(local.getUTCHours()).padStart(2, "0");
+  const minutes = String(local.getUTCMinutes()).padStart(2, "0");
+
+  return `${hours}:${minutes}`;
+}
+
+/**
+ * Adds n days to a YYYY-MM-DD date without going through local time
+ */
+function addDaysToIsoDate(date: string, n: number): string {
+  const [year, month, day] = date.split("-").map(Number);
+
+  return new Date(Date.UTC(year, month - 1, day + n)).toISOString().slice(0, 10);
+}
+
+/**
+ * Gets the ISO 8601 week (Monday start) a YYYY-MM-DD date falls in
+ */
+function getIsoWeek(date: string): {
+  key: string;
+  start: string;
+  end: string;
+} {
+  const [year, month, day] = date.split("-").map(Number);
+  const current = new Date(Date.UTC(year, month - 1, day));
+  const weekday = current.getUTCDay() || 7; // Sunday is the 7th day of an ISO week
+
+  // The Thursday of this week decides which year the week belongs to
+  const thursday = new Date(current);
+  thursday.setUTCDate(current.getUTCDate() + 4 - weekday);
+  const weekYear = thursday.getUTCFullYear();
+  const yearStart = Date.UTC(weekYear, 0, 1);
+  const week = Math.ceil(
+    ((thursday.getTime() - yearStart) / (24 * 60 * 60 * 1000) + 1) / 7,
+  );
+
+  const start = addDaysToIsoDate(date, 1 - weekday);
+
+  return {
+    key: `${weekYear}-W${String(week).padStart(2, "0")}`,
+    start,
+    end: addDaysToIsoDate(start, 6),
+  };
+}
+
+/**
+ * Checks that a string is an IANA time zone name such as "Europe/Lisbon"
+ */
+function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Gets the YYYY-MM-DD calendar date of an instant in an IANA time zone
+ */
+function getDateInTimeZone(instant: Date, timeZone: string): string {
+  // en-CA formats dates as YYYY-MM-DD
+  return new Intl.DateTimeFormat("en-CA", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(instant);
+}
+
+export type { HealthKitDate };
+
 export {
+  addDaysToIsoDate,
   addNDaysToDate,
+  formatLocalTime,
+  compareHealthKitDates,
+  getHealthKitLocalDate,
+  getIsoWeek,
+  parseHealthKitDate,
   getCurrentDate,
+  getDateInTimeZone,
   getCurrentMonth,
   getCurrentDay,
   getCurrentYear,
   getWeekdaysInMonth,
   getMonthName,
   hasMonthPassed,
+  isValidTimeZone,
   getLastDayOfMonth,
   getWeekdaysPassed,
   getPreviousMonthAndYear,
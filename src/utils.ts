@@ -0,0 +1,79 @@
+import { addDaysToIsoDate, getIsoWeek, getLastDayOfMonth } from '@src/time';
+
+type PeriodBuckets<TBucket> = {
+  weeks: Record<string, TBucket>;
+  months: Record<
+    string,
+    Record<string, TBucket & { month: string; year: string }>
+  >;
+};
+
+/**
+ * Rounds to a fixed number of decimal places
+ */
+function round(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Groups items by key, keeping the order they first appear in
+ */
+function groupBy<T>(items: T[], getKey: (item: T) => string): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const key = getKey(item);
+    const group = groups.get(key) ?? [];
+    group.push(item);
+    groups.set(key, group);
+  }
+  return groups;
+}
+
+/**
+ * Buckets dated items by ISO week and by year → month. Each bucket is built
+ * from its items, the period's first and last day and the days in the period.
+ */
+function bucketByWeekAndMonth<TItem extends { date: string }, TBucket>(
+  items: TItem[],
+  buildBucket: (
+    items: TItem[],
+    start: string,
+    end: string,
+    daysInPeriod: number
+  ) => TBucket
+): PeriodBuckets<TBucket> {
+  const weeks: PeriodBuckets<TBucket>['weeks'] = {};
+  for (const [weekKey, weekItems] of groupBy(
+    items,
+    (item) => getIsoWeek(item.date).key
+  )) {
+    const { start, end } = getIsoWeek(weekItems[0].date);
+    weeks[weekKey] = buildBucket(weekItems, start, end, 7);
+  }
+
+  const months: PeriodBuckets<TBucket>['months'] = {};
+  for (const [monthKey, monthItems] of groupBy(items, (item) =>
+    item.date.slice(0, 7)
+  )) {
+    const [year, month] = monthKey.split('-').map(Number);
+    const daysInMonth = getLastDayOfMonth(year, month);
+    const start = `${monthKey}-01`;
+
+    months[year] ??= {};
+    months[year][month] = {
+      month: String(month),
+      year: String(year),
+      ...buildBucket(
+        monthItems,
+        start,
+        addDaysToIsoDate(start, daysInMonth - 1),
+        daysInMonth
+      ),
+    };
+  }
+
+  return { weeks, months };
+}
+
+export { bucketByWeekAndMonth, groupBy, round };
@@ -0,0 +1,17 @@
+/**
+ * Bun-backed reader and writer matching the signatures the ingesters take
+ */
+export async function readVaultFile(path: string): Promise<string> {
+  const file = Bun.file(path);
+  if (await file.exists()) {
+    return await file.text();
+  }
+  throw new Error('File not found');
+}
+
+export async function writeVaultFile(
+  path: string,
+  content: string
+): Promise<void> {
+  await Bun.write(path, content);
+}
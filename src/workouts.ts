@@ -1,6 +1,33 @@
+import { z } from "zod";
+import { parseIssueBody } from "@src/issue-body";
+import { getCurrentDate } from "@src/time";
+
+type WriterFunction = (path: string, content: string) => Promise<void>;
+type ReaderFunction = (path: string) => Promise<string>;
+type CommentFunction = (comment: string) => Promise<void>;
+
 export type Workout = {
   date: string;
   note: string;
+  // Present on workouts recorded by a device and ingested from HealthKit
+  type?: string;
+  start?: string;
+  end?: string;
+  durationMinutes?: number;
+  activeEnergyKcal?: number;
+  distanceKm?: number;
+  avgHeartRate?: number;
+};
+
+export type RecordedWorkout = Omit<Workout, "note"> & {
+  type: string;
+  start: string;
+};
+
+export type MergeWorkoutsResult = {
+  workouts: Workout[];
+  added: number;
+  updated: number;
 };
 
 export type AddWorkoutResult = {
@@ -28,43 +55,171 @@ async function readWorkouts(path = workoutsPath): Promise<Workout[]> {
   return (await Bun.file(path).json()) as Workout[];
 }
 
+export function serializeWorkouts(workouts: Workout[]): string {
+  return `${JSON.stringify(workouts, null, 2)}\n`;
+}
+
 async function writeWorkouts(workouts: Workout[], path = workoutsPath) {
-  await Bun.write(path, `${JSON.stringify(workouts, null, 2)}\n`);
+  await Bun.write(path, serializeWorkouts(workouts));
 }
 
-export async function addWorkout(
+function compareWorkouts(a: Workout, b: Workout) {
+  return (
+    a.date.localeCompare(b.date) || (a.start ?? "").localeCompare(b.start ?? "")
+  );
+}
+
+/**
+ * Merges device-recorded workouts into the log. A re-export of the same start
+ * time replaces the recorded details, and the first recorded workout on a day
+ * logged by hand enriches that entry instead of adding a second one. Notes
+ * written by hand are always kept; new entries use the workout type as note.
+ */
+export function mergeWorkouts(
+  workouts: Workout[],
+  recorded: RecordedWorkout[],
+): MergeWorkoutsResult {
+  const merged = workouts.map((workout) => ({ ...workout }));
+  let added = 0;
+  let updated = 0;
+
+  for (const workout of recorded) {
+    const existing =
+      merged.find((entry) => entry.start === workout.start) ??
+      merged.find((entry) => entry.date === workout.date && !entry.start);
+
+    if (existing) {
+      Object.assign(existing, workout, {
+        note: existing.note || workout.type,
+      });
+      updated++;
+      continue;
+    }
+
+    const { date, ...details } = workout;
+    merged.push({ date, note: workout.type, ...details });
+    added++;
+  }
+
+  merged.sort(compareWorkouts);
+
+  return { workouts: merged, added, updated };
+}
+
+/**
+ * Adds or updates the workout for a date in memory. `changed` tells callers
+ * whether the log needs to be written back.
+ */
+export function applyWorkout(
+  workouts: Workout[],
   date: string,
   note = "",
-  path = workoutsPath,
-): Promise<AddWorkoutResult> {
+): AddWorkoutResult & { changed: boolean } {
   assertValidDate(date);
 
   const normalizedNote = note.trim();
-  const workouts = await readWorkouts(path);
   const existing = workouts.find((workout) => workout.date === date);
 
   if (existing) {
     if (normalizedNote) {
       existing.note = normalizedNote;
-      await writeWorkouts(workouts, path);
       return {
         message: `Updated workout note for ${date}`,
         workouts,
+        changed: true,
       };
     }
 
     return {
       message: `Workout already exists for ${date}`,
       workouts,
+      changed: false,
     };
   }
 
   workouts.push({ date, note: normalizedNote });
   workouts.sort((a, b) => a.date.localeCompare(b.date));
-  await writeWorkouts(workouts, path);
 
   return {
     message: `Added workout for ${date}`,
     workouts,
+    changed: true,
   };
 }
+
+export async function addWorkout(
+  date: string,
+  note = "",
+  path = workoutsPath,
+): Promise<AddWorkoutResult> {
+  const { changed, ...result } = applyWorkout(
+    await readWorkouts(path),
+    date,
+    note,
+  );
+
+  if (changed) {
+    await writeWorkouts(result.workouts, path);
+  }
+
+  return result;
+}
+
+const WorkoutLogSchema = z.object({
+  date: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must use YYYY-MM-DD format.")
+    .optional(),
+  note: z.string().optional(),
+});
+
+export type WorkoutLog = z.infer<typeof WorkoutLogSchema>;
+
+/**
+ * Parses a WorkoutLog issue body. The date defaults to today.
+ */
+export function parseWorkoutLog(body: string) {
+  return parseIssueBody(body, WorkoutLogSchema, "workout log");
+}
+
+/**
+ * Adds a workout from a WorkoutLog issue and confirms it with a comment
+ */
+export async function ingestWorkoutLog(
+  log: WorkoutLog,
+  writer: WriterFunction,
+  reader: ReaderFunction,
+  commenter?: CommentFunction,
+  path = workoutsPath,
+): Promise<{ success: boolean; message: string }> {
+  let content: string | null;
+  try {
+    content = await reader(path);
+  } catch (error) {
+    // File doesn't exist, start fresh
+    content = null;
+  }
+
+  let result: AddWorkoutResult & { changed: boolean };
+  try {
+    const workouts = content === null ? [] : (JSON.parse(content) as Workout[]);
+    result = applyWorkout(workouts, log.date ?? getCurrentDate(), log.note);
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    if (commenter) {
+      await commenter(`❌ ${errorMsg}`);
+    }
+    return { success: false, message: errorMsg };
+  }
+
+  if (result.changed) {
+    await writer(path, serializeWorkouts(result.workouts));
+  }
+
+  const message = `${result.changed ? "✅" : "ℹ️"} ${result.message}`;
+  if (commenter) {
+    await commenter(message);
+  }
+
+  return { success: true, message };
+}
@@ -0,0 +1,138 @@
+import { describe, expect, it } from 'bun:test';
+import {
+  AuthorizationPolicy,
+  authorizeIssue,
+  extractSignature,
+  signIssueBody,
+} from '@src/authorization';
+
+const policy: AuthorizationPolicy = {
+  default: { authors: ['0x4444', 'shivekkhurana'] },
+  types: {
+    LocationDataExport: {
+      authors: ['*'],
+      signature: { scheme: 'hmac-sha256', secretEnv: 'ISSUE_SIGNING_SECRET' },
+    },
+    HealthDataExport: {
+      authors: ['0x4444'],
+      signature: { scheme: 'shared-secret', secretEnv: 'HEALTH_SECRET' },
+    },
+  },
+};
+
+const env = {
+  ISSUE_SIGNING_SECRET: 'signing-secret',
+  HEALTH_SECRET: 'health-secret',
+};
+
+const locationBody = JSON.stringify({ city: 'Lisbon', country: 'Portugal' });
+
+describe('extractSignature', () => {
+  it('splits the signature comment out of the body', () => {
+    expect(
+      extractSignature(`${locationBody}\n<!-- signature: abc123 -->`)
+    ).toEqual({ body: locationBody, signature: 'abc123' });
+  });
+
+  it('leaves bodies without a signature untouched', () => {
+    expect(extractSignature(locationBody)).toEqual({
+      body: locationBody,
+      signature: null,
+    });
+  });
+});
+
+describe('authorizeIssue', () => {
+  it('allows listed authors for types using the default policy', () => {
+    expect(
+      authorizeIssue(
+        { title: 'WorkoutLog', body: '{}', author: ' shivekkhurana ' },
+        policy,
+        env
+      )
+    ).toEqual({ authorized: true, body: '{}' });
+  });
+
+  it('rejects authors missing from the allowlist', () => {
+    const result = authorizeIssue(
+      { title: 'WorkoutLog', body: '{}', author: 'someone' },
+      policy,
+      env
+    );
+
+    expect(result.authorized).toBe(false);
+    if (!result.authorized) {
+      expect(result.reason).toContain('"someone" is not allowed');
+    }
+  });
+
+  it('accepts any author with a valid HMAC and strips the signature', () => {
+    const signature = signIssueBody(locationBody, 'signing-secret');
+
+    expect(
+      authorizeIssue(
+        {
+          title: 'LocationDataExport',
+          body: `${locationBody}\n<!-- signature: ${signature} -->`,
+          author: 'fork-owner',
+        },
+        policy,
+        env
+      )
+    ).toEqual({ authorized: true, body: locationBody });
+  });
+
+  it('rejects an HMAC computed over a different body', () => {
+    const signature = signIssueBody('{"city":"Paris"}', 'signing-secret');
+
+    expect(
+      authorizeIssue(
+        {
+          title: 'LocationDataExport',
+          body: `${locationBody}\n<!-- signature: ${signature} -->`,
+        },
+        policy,
+        env
+      )
+    ).toEqual({ authorized: false, reason: 'Issue signature is invalid' });
+  });
+
+  it('requires both the author and the shared secret when both are set', () => {
+    expect(
+      authorizeIssue(
+        {
+          title: 'HealthDataExport',
+          body: `{}\n<!-- signature: health-secret -->`,
+          author: '0x4444',
+        },
+        policy,
+        env
+      )
+    ).toEqual({ authorized: true, body: '{}' });
+
+    expect(
+      authorizeIssue(
+        { title: 'HealthDataExport', body: '{}', author: '0x4444' },
+        policy,
+        env
+      )
+    ).toEqual({
+      authorized: false,
+      reason: 'Issue body is missing a signature comment',
+    });
+  });
+
+  it('rejects signed types when the secret is not configured', () => {
+    expect(
+      authorizeIssue(
+        { title: 'LocationDataExport', body: locationBody },
+        policy,
+        {}
+      )
+    ).toEqual({
+      authorized: false,
+      reason:
+        "ISSUE_SIGNING_SECRET is not set, so signed issues can't be verified",
+    });
+  });
+});
@@ -1,12 +1,29 @@
 import { afterAll, describe, expect, it } from "bun:test";
 import { mkdir, rm } from "node:fs/promises";
 import {
+  addDietLog,
+  addDietLogEntry,
+  createDietLog,
+  generateDietItemsIndex,
   generateDietMacrosIndex,
+  getDietLogMismatches,
   parseDietLogFrontmatter,
+  parseDietLogItems,
+  verifyDietLogs,
 } from "@src/diet";
 
 const testDir = "/tmp/state-of-being-diet-test";
 
+const oats = {
+  meal: "breakfast" as const,
+  item: "Oats",
+  quantity: "50 g",
+  calories: 190,
+  carbs: 33,
+  protein: 6.5,
+  fat: 3.5,
+};
+
 describe("parseDietLogFrontmatter", () => {
   it("extracts macro totals with public index keys", () => {
     const entry = parseDietLogFrontmatter(`---
@@ -30,6 +47,198 @@ diet_total_fat_g: 48.0
   });
 });
 
+describe("parseDietLogItems", () => {
+  it("reads each meal row, matching columns by header", () => {
+    const markdown = [
+      createDietLog("2026-08-09").trimEnd(),
+      "| 2026-08-09T13:02:11Z | Dal \\| rice | 1 bowl | 420 | 62.5 | 14.0 | 9.8 | |",
+    ].join("\n");
+
+    expect(parseDietLogItems(markdown)).toEqual([
+      {
+        date: "2026-08-09",
+        meal: "dinner",
+        timestamp: "2026-08-09T13:02:11Z",
+        item: "Dal | rice",
+        quantity: "1 bowl",
+        calories: 420,
+        carbs_g: 62.5,
+        protein_g: 14,
+        fat_g: 9.8,
+        note: null,
+      },
+    ]);
+  });
+
+  it("accepts headers with units", () => {
+    const markdown = `---
+date: 2026-07-31
+diet_total_calories: 500
+diet_total_carbs_g: 65.0
+diet_total_protein_g: 28.0
+diet_total_fat_g: 15.0
+---
+
+## Lunch
+
+| Timestamp (GMT) | Item | Quantity | Calories (kcal) | Carbs (g) | Protein (g) | Fat (g) | Notes |
+| --- | --- | ---: | ---: | ---: | ---: | ---: | --- |
+| 2026-07-31T10:22:57Z | Thin crust pizza | 6 slices | 500 | 65.0 | 28.0 | 15.0 | Very thin |
+`;
+
+    expect(parseDietLogItems(markdown)).toMatchObject([
+      { meal: "lunch", calories: 500, carbs_g: 65, note: "Very thin" },
+    ]);
+  });
+
+  it("rejects rows with a missing macro", () => {
+    const markdown = `${createDietLog("2026-08-09")}| 2026-08-09T13:02:11Z | Dal | 1 bowl | | 62.5 | 14.0 | 9.8 | |
+`;
+
+    expect(() => parseDietLogItems(markdown)).toThrow(
+      'Invalid calories in Dinner row "Dal" on 2026-08-09'
+    );
+  });
+});
+
+describe("addDietLogEntry", () => {
+  const paratha = {
+    date: "2026-08-09",
+    meal: "breakfast" as const,
+    item: "Paneer paratha",
+    quantity: "2 × 100 g",
+    calories: 556,
+    carbs: 64,
+    protein: 22.6,
+    fat: 24.2,
+    note: "About 1 tsp ghee | per paratha",
+  };
+
+  it("creates a log from the template and appends the row to its meal", () => {
+    const markdown = addDietLogEntry(null, paratha, "2026-08-09T06:11:03Z");
+
+    expect(createDietLog("2026-08-09")).toEndWith(
+      "| --- | --- | ---: | ---: | ---: | ---: | ---: | --- |\n"
+    );
+    expect(markdown).toBe(
+      createDietLog("2026-08-09")
+        .replace("diet_total_calories: 0", "diet_total_calories: 556")
+        .replace("diet_total_carbs_g: 0.0", "diet_total_carbs_g: 64.0")
+        .replace("diet_total_protein_g: 0.0", "diet_total_protein_g: 22.6")
+        .replace("diet_total_fat_g: 0.0", "diet_total_fat_g: 24.2")
+        .replace(
+          "| --- | --- | ---: | ---: | ---: | ---: | ---: | --- |",
+          [
+            "| --- | --- | ---: | ---: | ---: | ---: | ---: | --- |",
+            "| 2026-08-09T06:11:03Z | Paneer paratha | 2 × 100 g | 556 kcal | 64.0 g | 22.6 g | 24.2 g | About 1 tsp ghee \\| per paratha |",
+          ].join("\n"),
+        ),
+    );
+  });
+
+  it("adds to the existing totals and keeps other meals untouched", () => {
+    const markdown = addDietLogEntry(
+      addDietLogEntry(null, paratha, "2026-08-09T06:11:03Z"),
+      {
+        ...paratha,
+        meal: "dinner",
+        item: "Maa ki dal",
+        quantity: "1 katori",
+        calories: 210,
+        carbs: 28,
+        protein: 10,
+        fat: 7,
+        note: undefined,
+      },
+      "2026-08-09T15:40:00Z",
+    );
+
+    expect(parseDietLogFrontmatter(markdown)).toEqual({
+      date: "2026-08-09",
+      calories: 766,
+      carbs_g: 92,
+      protein_g: 32.6,
+      fat_g: 31.2,
+    });
+    expect(markdown.trimEnd().split("\n").at(-1)).toBe(
+      "| 2026-08-09T15:40:00Z | Maa ki dal | 1 katori | 210 kcal | 28.0 g | 10.0 g | 7.0 g |  |",
+    );
+  });
+
+  it("recomputes totals from the rows instead of trusting the frontmatter", () => {
+    const stale = addDietLogEntry(
+      null,
+      paratha,
+      "2026-08-09T06:11:03Z"
+    ).replace("diet_total_calories: 556", "diet_total_calories: 900");
+
+    const markdown = addDietLogEntry(
+      stale,
+      { ...oats, date: "2026-08-09" },
+      "2026-08-09T07:00:00Z"
+    );
+
+    expect(parseDietLogFrontmatter(markdown).calories).toBe(746);
+    expect(getDietLogMismatches(markdown)).toEqual([]);
+  });
+});
+
+describe("addDietLog", () => {
+  const addDir = `${testDir}-add`;
+
+  afterAll(async () => {
+    await rm(addDir, { recursive: true, force: true });
+  });
+
+  it("creates the day's log and round-trips its totals", async () => {
+    await rm(addDir, { recursive: true, force: true });
+    await mkdir(addDir, { recursive: true });
+
+    const result = await addDietLog(
+      { ...oats, date: "2026-08-09", calories: "190", note: "With water" },
+      addDir,
+      "2026-08-09T03:12:45.123Z"
+    );
+    const markdown = await Bun.file(`${addDir}/2026-08-09_diet_log.md`).text();
+
+    expect(result.message).toBe(
+      "✅ Added Oats to breakfast on 2026-08-09. Day total: 190 kcal, 6.5 g protein"
+    );
+    expect(parseDietLogFrontmatter(markdown)).toEqual({
+      date: "2026-08-09",
+      calories: 190,
+      carbs_g: 33,
+      protein_g: 6.5,
+      fat_g: 3.5,
+    });
+    expect(parseDietLogItems(markdown)).toMatchObject([
+      { timestamp: "2026-08-09T03:12:45Z", item: "Oats", note: "With water" },
+    ]);
+  });
+
+  it("dates a backdated row on its own day", async () => {
+    await addDietLog(
+      { ...oats, date: "2026-08-01" },
+      addDir,
+      "2026-10-19T09:30:05.000Z"
+    );
+    const markdown = await Bun.file(`${addDir}/2026-08-01_diet_log.md`).text();
+
+    expect(parseDietLogItems(markdown)).toMatchObject([
+      { timestamp: "2026-08-01T09:30:05Z", item: "Oats" },
+    ]);
+  });
+
+  it("rejects invalid entries without writing", async () => {
+    await expect(
+      addDietLog({ ...oats, date: "2026-08-10", meal: "brunch" }, addDir)
+    ).rejects.toThrow("Validation failed: meal");
+    expect(await Bun.file(`${addDir}/2026-08-10_diet_log.md`).exists()).toBe(
+      false
+    );
+  });
+});
+
 describe("generateDietMacrosIndex", () => {
   afterAll(async () => {
     await rm(testDir, { recursive: true, force: true });
@@ -51,6 +260,12 @@ diet_total_carbs_g: 215.5
 diet_total_protein_g: 81.0
 diet_total_fat_g: 48.0
 ---
+
+## Dinner
+
+| Timestamp (GMT) | Item | Quantity | Calories | Carbs | Protein | Fat | Notes |
+| --- | --- | ---: | ---: | ---: | ---: | ---: | --- |
+| 2026-07-05T13:00:00Z | Rajma chawal | 2 plates | 1578 | 215.5 | 81.0 | 48.0 | |
 `
     );
 
@@ -63,10 +278,21 @@ diet_total_carbs_g: 95.5
 diet_total_protein_g: 127.0
 diet_total_fat_g: 15.9
 ---
+
+## Dinner
+
+| Timestamp (GMT) | Item | Quantity | Calories | Carbs | Protein | Fat | Notes |
+| --- | --- | ---: | ---: | ---: | ---: | ---: | --- |
+| 2026-07-04T13:00:00Z | Chicken and rice | 1 plate | 1062 | 95.5 | 127.0 | 15.9 | |
 `
     );
 
-    const result = await generateDietMacrosIndex({ logsDir, savePath });
+    const result = await generateDietMacrosIndex({
+      logsDir,
+      savePath,
+      adherenceSavePath: `${testDir}/macros-adherence.json`,
+      targets: [],
+    });
     const index = await Bun.file(savePath).json();
 
     expect(result.count).toBe(2);
@@ -79,4 +305,192 @@ diet_total_fat_g: 15.9
       fat_g: 15.9,
     });
   });
+
+  it("scores days against targets and writes adherence summaries", async () => {
+    const logsDir = `${testDir}/diet-logs`;
+    const savePath = `${testDir}/macros.json`;
+    const adherenceSavePath = `${testDir}/macros-adherence.json`;
+    const measurementsPath = `${testDir}/measurements.json`;
+
+    await Bun.write(
+      measurementsPath,
+      JSON.stringify([
+        { date: "2026-07-01", type: "weight", value: 60, unit: "kg" },
+      ])
+    );
+
+    await generateDietMacrosIndex({
+      logsDir,
+      savePath,
+      adherenceSavePath,
+      measurementsPath,
+      targets: [
+        {
+          from: "2026-07-05",
+          calories: 1600,
+          proteinPerKg: 1.5,
+          carbs_g: { min: 150, max: 250 },
+          fat_g: { min: 40, max: 60 },
+        },
+      ],
+    });
+    const index = await Bun.file(savePath).json();
+    const adherence = await Bun.file(adherenceSavePath).json();
+
+    expect(index["2026-07-04"].adherence).toBeUndefined();
+    expect(index["2026-07-05"]).toMatchObject({
+      targets: { calories: 1600, protein_g: 90 },
+      deltas: { calories: -22, protein_g: -9, carbs_g: 0, fat_g: 0 },
+      adherence: 0.97,
+    });
+    expect(adherence.weeks["2026-W27"]).toMatchObject({
+      start: "2026-06-29",
+      end: "2026-07-05",
+      days: 1,
+      adherence: 0.97,
+    });
+    expect(adherence.months["2026"]["7"]).toMatchObject({
+      days: 1,
+      adherence: 0.97,
+    });
+  });
+
+  it("leaves out logs whose totals don't match their meal tables", async () => {
+    const logsDir = `${testDir}/diet-logs`;
+    const savePath = `${testDir}/macros.json`;
+    const log = await Bun.file(`${logsDir}/2026-07-04_diet_log.md`).text();
+
+    await Bun.write(
+      `${logsDir}/2026-07-04_diet_log.md`,
+      log.replace("diet_total_fat_g: 15.9", "diet_total_fat_g: 19.9")
+    );
+
+    const result = await generateDietMacrosIndex({
+      logsDir,
+      savePath,
+      adherenceSavePath: `${testDir}/macros-adherence.json`,
+      targets: [],
+    });
+    const index = await Bun.file(savePath).json();
+
+    expect(result.count).toBe(1);
+    expect(result.skipped).toEqual([
+      "2026-07-04_diet_log.md (fat_g is 19.9, rows add up to 15.9)",
+    ]);
+    expect(Object.keys(index)).toEqual(["2026-07-05"]);
+  });
+});
+
+describe("getDietLogMismatches", () => {
+  it("tolerates the rounding used for frontmatter totals", () => {
+    const markdown = [
+      createDietLog("2026-08-09")
+        .replace("diet_total_calories: 0", "diet_total_calories: 101")
+        .replace("diet_total_carbs_g: 0.0", "diet_total_carbs_g: 0.3")
+        .trimEnd(),
+      "| 2026-08-09T13:00:00Z | Tea | 1 cup | 50.6 | 0.1 | 0.0 | 0.0 | |",
+      "| 2026-08-09T14:00:00Z | Tea | 1 cup | 50.6 | 0.2 | 0.0 | 0.0 | |",
+    ].join("\n");
+
+    expect(getDietLogMismatches(markdown)).toEqual([]);
+  });
+
+  it("reports each total that differs from the rows", () => {
+    const markdown = addDietLogEntry(
+      null,
+      { ...oats, date: "2026-08-09" },
+      "2026-08-09T03:00:00Z"
+    )
+      .replace("diet_total_calories: 190", "diet_total_calories: 250")
+      .replace("diet_total_fat_g: 3.5", "diet_total_fat_g: 5.0");
+
+    expect(getDietLogMismatches(markdown)).toEqual([
+      { field: "calories", recorded: 250, computed: 190 },
+      { field: "fat_g", recorded: 5, computed: 3.5 },
+    ]);
+  });
+});
+
+describe("verifyDietLogs", () => {
+  const verifyDir = `${testDir}-verify`;
+
+  afterAll(async () => {
+    await rm(verifyDir, { recursive: true, force: true });
+  });
+
+  it("reports mismatched logs and rewrites their totals with fix", async () => {
+    const path = `${verifyDir}/2026-08-09_diet_log.md`;
+    const consistent = addDietLogEntry(
+      null,
+      { ...oats, date: "2026-08-09" },
+      "2026-08-09T03:00:00Z"
+    );
+
+    await rm(verifyDir, { recursive: true, force: true });
+    await mkdir(verifyDir, { recursive: true });
+    await Bun.write(
+      path,
+      consistent.replace("diet_total_carbs_g: 33.0", "diet_total_carbs_g: 40.0")
+    );
+
+    const report = await verifyDietLogs({ logsDir: verifyDir });
+
+    expect(report.checked).toBe(1);
+    expect(report.inconsistent).toEqual([
+      {
+        fileName: "2026-08-09_diet_log.md",
+        mismatches: [{ field: "carbs_g", recorded: 40, computed: 33 }],
+        fixed: false,
+      },
+    ]);
+
+    await verifyDietLogs({ logsDir: verifyDir, fix: true });
+    const recheck = await verifyDietLogs({ logsDir: verifyDir });
+
+    expect(await Bun.file(path).text()).toBe(consistent);
+    expect(recheck.inconsistent).toEqual([]);
+  });
+});
+
+describe("generateDietItemsIndex", () => {
+  const itemsDir = `${testDir}-items`;
+
+  afterAll(async () => {
+    await rm(itemsDir, { recursive: true, force: true });
+  });
+
+  it("lists items from every log in date order", async () => {
+    const logsDir = `${itemsDir}/diet-logs`;
+    const savePath = `${itemsDir}/diet-items.json`;
+
+    await rm(itemsDir, { recursive: true, force: true });
+    await mkdir(logsDir, { recursive: true });
+
+    await Bun.write(
+      `${logsDir}/2026-08-10_diet_log.md`,
+      addDietLogEntry(
+        null,
+        { ...oats, date: "2026-08-10" },
+        "2026-08-10T03:00:00Z"
+      )
+    );
+    await Bun.write(
+      `${logsDir}/2026-08-09_diet_log.md`,
+      addDietLogEntry(
+        null,
+        { ...oats, date: "2026-08-09" },
+        "2026-08-09T03:00:00Z"
+      )
+    );
+
+    const result = await generateDietItemsIndex({ logsDir, savePath });
+    const items = await Bun.file(savePath).json();
+
+    expect(result.count).toBe(2);
+    expect(items.map((item: { date: string }) => item.date)).toEqual([
+      "2026-08-09",
+      "2026-08-10",
+    ]);
+    expect(items[0]).toMatchObject({ meal: "breakfast", item: "Oats" });
+  });
 });
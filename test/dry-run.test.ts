@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'bun:test';
+import {
+  createDryRun,
+  formatDryRunSummary,
+  summarizeFileChange,
+} from '@src/dry-run';
+import { ingestHealthDataFromIssue } from '@src/healthkit';
+
+describe('summarizeFileChange', () => {
+  it('counts added, replaced and unchanged healthkit rows', () => {
+    const before = JSON.stringify({
+      metrics: [
+        { qty: 88, date: '2025-10-28 00:00:00 +0530' },
+        { qty: 89, date: '2025-10-29 00:00:00 +0530' },
+      ],
+    });
+    const after = JSON.stringify({
+      metrics: [
+        { qty: 88, date: '2025-10-28 00:00:00 +0530' },
+        { qty: 91, date: '2025-10-29 00:00:00 +0530' },
+        { qty: 93, date: '2025-10-30 00:00:00 +0530' },
+      ],
+    });
+
+    expect(summarizeFileChange('hrv.json', before, after)).toEqual({
+      path: 'hrv.json',
+      added: 1,
+      replaced: 1,
+      unchanged: 1,
+    });
+  });
+
+  it('counts every entry of a new list file as added', () => {
+    expect(
+      summarizeFileChange(
+        'location.json',
+        null,
+        JSON.stringify([{ date: '2026-10-19', city: 'Paris' }])
+      )
+    ).toEqual({ path: 'location.json', added: 1, replaced: 0, unchanged: 0 });
+  });
+});
+
+describe('createDryRun', () => {
+  it('runs the healthkit pipeline without touching the real writer', async () => {
+    const files = new Map([
+      [
+        './vault/healthkit/hrv.json',
+        JSON.stringify({
+          metrics: [{ qty: 88, date: '2025-10-28 00:00:00 +0530' }],
+        }),
+      ],
+    ]);
+    const dryRun = createDryRun(async (path) => {
+      const content = files.get(path);
+      if (!content) {
+        throw new Error('File not found');
+      }
+      return content;
+    });
+
+    const result = await ingestHealthDataFromIssue(
+      {
+        title: 'HealthDataExport',
+        body: JSON.stringify({
+          data: {
+            metrics: [
+              {
+                name: 'heart_rate_variability',
+                units: 'ms',
+                data: [
+                  { qty: 90, date: '2025-10-28 00:00:00 +0530' },
+                  { qty: 92, date: '2025-10-29 00:00:00 +0530' },
+                ],
+              },
+            ],
+          },
+        }),
+      },
+      dryRun.writer,
+      dryRun.reader
+    );
+
+    expect(result.success).toBe(true);
+    expect(files.get('./vault/healthkit/hrv.json')).toContain('88');
+    expect(await dryRun.reader('./vault/healthkit/hrv.json')).toContain('92');
+    expect(dryRun.summarize()).toEqual([
+      {
+        path: './vault/healthkit/hrv.json',
+        added: 1,
+        replaced: 1,
+        unchanged: 0,
+      },
+    ]);
+  });
+});
+
+describe('formatDryRunSummary', () => {
+  it('renders a markdown table per file', () => {
+    expect(
+      formatDryRunSummary([
+        { path: 'hrv.json', added: 1, replaced: 2, unchanged: 3 },
+      ])
+    ).toBe(
+      [
+        '🧪 Dry run: no files were written',
+        '',
+        '| File | Added | Replaced | Unchanged |',
+        '| --- | ---: | ---: | ---: |',
+        '| hrv.json | 1 | 2 | 3 |',
+      ].join('\n')
+    );
+  });
+
+  it('says so when nothing would change', () => {
+    expect(formatDryRunSummary([])).toBe('🧪 Dry run: no files would change');
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'bun:test';
+import { Food, readFoods, resolveFoodEntry, scaleFood } from '@src/foods';
+
+const foods: Food[] = [
+  {
+    name: 'Whey protein powder',
+    aliases: ['whey'],
+    per100g: { calories: 388.5, carbs_g: 12.17, protein_g: 72.73, fat_g: 5.1 },
+    units: { scoop: 32 },
+  },
+  {
+    name: 'Whole milk',
+    aliases: ['milk'],
+    per100ml: { calories: 66, carbs_g: 4.8, protein_g: 3.3, fat_g: 3.9 },
+    units: { cup: 240, glass: 250 },
+  },
+  {
+    name: 'Mango',
+    aliases: [],
+    per100g: { calories: 60, carbs_g: 15, protein_g: 1, fat_g: 0.5 },
+    perServing: {
+      unit: 'piece',
+      calories: 120,
+      carbs_g: 30,
+      protein_g: 2,
+      fat_g: 1,
+    },
+    units: {},
+  },
+];
+
+describe('scaleFood', () => {
+  it('scales per-100 g macros to grams', () => {
+    const scaled = scaleFood(foods[0], '62', 'g');
+
+    expect(scaled.calories).toBeCloseTo(240.87);
+    expect(scaled.protein_g).toBeCloseTo(45.09);
+    expect(scaled.quantity).toBe('62 g');
+    expect(scaled.note).toBe(
+      'Scaled from foods.json per-100 g values (388.5 kcal, 12.17 g carbs, 72.73 g protein, 5.1 g fat) to 62 g.'
+    );
+  });
+
+  it('converts household units to the base amount', () => {
+    const scaled = scaleFood(foods[1], '2', 'glasses');
+
+    expect(scaled.calories).toBeCloseTo(330);
+    expect(scaled.quantity).toBe('2 glass');
+    expect(scaled.note).toEndWith('to 2 glass = 500 ml.');
+  });
+
+  it('rejects units the food has no conversion for', () => {
+    expect(() => scaleFood(foods[1], '100', 'g')).toThrow(
+      `Can't measure Whole milk in "g"`
+    );
+  });
+});
+
+describe('resolveFoodEntry', () => {
+  it('reads the amount before or after the food name', () => {
+    expect(resolveFoodEntry('whey 62g', foods).calories).toBeCloseTo(240.87);
+    expect(resolveFoodEntry('62 g whey', foods).calories).toBeCloseTo(240.87);
+    expect(resolveFoodEntry('Milk 1 1/2 cups', foods).quantity).toBe(
+      '1 1/2 cup'
+    );
+  });
+
+  it('counts servings when no unit is given', () => {
+    const scaled = resolveFoodEntry('1/2 mango', foods);
+
+    expect(scaled).toMatchObject({
+      name: 'Mango',
+      quantity: '1/2 piece',
+      calories: 60,
+      carbs_g: 15,
+    });
+  });
+
+  it('explains entries it cannot resolve', () => {
+    expect(() => resolveFoodEntry('whey', foods)).toThrow(
+      'Add an amount to "whey"'
+    );
+    expect(() => resolveFoodEntry('paneer 100g', foods)).toThrow(
+      'No food in foods.json matches "paneer 100g"'
+    );
+    expect(() => resolveFoodEntry('whey 2', foods)).toThrow(
+      'Whey protein powder has no serving size'
+    );
+  });
+});
+
+describe('readFoods', () => {
+  it('validates the library', async () => {
+    await expect(
+      readFoods(async () => JSON.stringify([{ name: 'Paneer' }]))
+    ).rejects.toThrow(
+      'Invalid food library: 0: Needs per100g, per100ml or perServing macros'
+    );
+  });
+
+  it('reports a missing library', async () => {
+    await expect(
+      readFoods(async () => {
+        throw new Error('File not found');
+      }, './vault/foods.json')
+    ).rejects.toThrow('No food library at ./vault/foods.json');
+  });
+});
@@ -0,0 +1,133 @@
+import { afterAll, describe, expect, it } from 'bun:test';
+import { mkdir, rm } from 'node:fs/promises';
+import { findDataGaps, findGaps, formatGapsTable } from '@src/gaps';
+
+const testDir = '/tmp/state-of-being-gaps-test';
+
+describe('findGaps', () => {
+  it('groups missing days into runs and counts the current streak', () => {
+    expect(
+      findGaps(
+        'diet',
+        ['2026-07-03', '2026-07-04', '2026-07-06', '2026-07-09', '2026-07-10'],
+        '2026-07-10'
+      )
+    ).toEqual({
+      stream: 'diet',
+      from: '2026-07-03',
+      to: '2026-07-10',
+      daysMissing: 3,
+      longestGap: 2,
+      currentStreak: 2,
+      gaps: [
+        { start: '2026-07-05', end: '2026-07-05', days: 1 },
+        { start: '2026-07-07', end: '2026-07-08', days: 2 },
+      ],
+    });
+  });
+
+  it('counts days before the first entry only when from is given', () => {
+    expect(findGaps('workouts', ['2026-07-03'], '2026-07-03')?.gaps).toEqual(
+      []
+    );
+    expect(
+      findGaps('workouts', ['2026-07-03'], '2026-07-03', '2026-07-01')?.gaps
+    ).toEqual([{ start: '2026-07-01', end: '2026-07-02', days: 2 }]);
+    expect(findGaps('workouts', [], '2026-07-03')).toBeNull();
+  });
+});
+
+describe('formatGapsTable', () => {
+  it('lists single days and ranges with their length', () => {
+    const table = formatGapsTable([
+      findGaps(
+        'diet',
+        ['2026-07-01', '2026-07-03', '2026-07-07'],
+        '2026-07-07'
+      )!,
+    ]);
+
+    expect(table.split('\n').at(-1)).toBe(
+      '| diet | 2026-07-01 | 2026-07-07 | 4 | 3 | 1 | 2026-07-02, 2026-07-04 → 2026-07-06 (3) |'
+    );
+  });
+});
+
+describe('findDataGaps', () => {
+  const dietLogsDir = `${testDir}/diet-logs`;
+  const healthkitDir = `${testDir}/healthkit`;
+  const options = {
+    dietLogsDir,
+    workoutsFilePath: `${testDir}/workouts.json`,
+    measurementsFilePath: `${testDir}/measurements.json`,
+    healthkitDir,
+    to: '2026-07-05',
+  };
+
+  afterAll(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  it('reads every stream and skips the ones without data', async () => {
+    await rm(testDir, { recursive: true, force: true });
+    await mkdir(dietLogsDir, { recursive: true });
+    await mkdir(healthkitDir, { recursive: true });
+
+    await Bun.write(`${dietLogsDir}/2026-07-03_diet_log.md`, '');
+    await Bun.write(`${dietLogsDir}/2026-07-05_diet_log.md`, '');
+    await Bun.write(
+      options.workoutsFilePath,
+      JSON.stringify([{ date: '2026-07-04', note: 'Run' }])
+    );
+    await Bun.write(
+      `${healthkitDir}/restingHeartRate.json`,
+      JSON.stringify({
+        metrics: [
+          { qty: 57, date: '2026-07-04 00:00:00 +0530' },
+          { qty: 55, date: '2026-07-05 00:00:00 +0530' },
+        ],
+      })
+    );
+
+    const results = await findDataGaps(options);
+
+    expect(results.map((result) => result.stream)).toEqual([
+      'diet',
+      'workouts',
+      'healthkit/restingHeartRate',
+    ]);
+    expect(results[0].gaps).toEqual([
+      { start: '2026-07-04', end: '2026-07-04', days: 1 },
+    ]);
+    expect(results[1].daysMissing).toBe(1);
+  });
+
+  it('filters streams by name or by the healthkit prefix', async () => {
+    const results = await findDataGaps({
+      ...options,
+      from: '2026-07-01',
+      streams: ['healthkit', 'measurements'],
+    });
+    const missing = new Map(
+      results.map((result) => [result.stream, result.daysMissing])
+    );
+
+    expect(missing.get('measurements')).toBe(5);
+    expect(missing.get('healthkit/restingHeartRate')).toBe(3);
+    // With an explicit range, streams without any data are entirely missing
+    expect(missing.get('healthkit/steps')).toBe(5);
+    expect(missing.has('diet')).toBe(false);
+    await expect(
+      findDataGaps({ ...options, streams: ['food'] })
+    ).rejects.toThrow('Unknown stream: food');
+  });
+
+  it('fails on a malformed file instead of reporting it as empty', async () => {
+    await Bun.write(options.measurementsFilePath, '[{"date": "2026-07-0');
+
+    await expect(
+      findDataGaps({ ...options, streams: ['measurements'] })
+    ).rejects.toBeInstanceOf(SyntaxError);
+    await rm(options.measurementsFilePath);
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'bun:test';
+import { findNearestCity, getDistanceKm, normalizePlace } from '@src/gazetteer';
+
+describe('getDistanceKm', () => {
+  it('measures great-circle distance', () => {
+    // Lisbon to Porto is roughly 275 km as the crow flies
+    expect(getDistanceKm(38.7223, -9.1393, 41.1579, -8.6291)).toBeCloseTo(
+      274,
+      -1
+    );
+  });
+});
+
+describe('findNearestCity', () => {
+  it('resolves coordinates to the closest city with its time zone', () => {
+    const nearest = findNearestCity(28.6304, 77.2177);
+
+    expect(nearest?.city).toMatchObject({
+      name: 'New Delhi',
+      country: 'India',
+      timezone: 'Asia/Kolkata',
+    });
+    expect(nearest?.distanceKm).toBeLessThan(5);
+  });
+
+  it('covers places beyond the curated extra cities', () => {
+    expect(findNearestCity(64.1466, -21.9426)?.city).toMatchObject({
+      name: 'Reykjavík',
+      countryCode: 'IS',
+      country: 'Iceland',
+      timezone: 'Atlantic/Reykjavik',
+    });
+    expect(findNearestCity(-33.9249, 18.4241)?.city.name).toBe('Cape Town');
+  });
+
+  it('resolves a city centre to the city rather than one of its sections', () => {
+    expect(findNearestCity(52.52, 13.405)?.city.name).toBe('Berlin');
+  });
+
+  it('tells the two Cambridges apart', () => {
+    expect(findNearestCity(42.3656, -71.104)?.city.country).toBe(
+      'United States'
+    );
+    expect(findNearestCity(52.1951, 0.1313)?.city.country).toBe(
+      'United Kingdom'
+    );
+  });
+
+  it('returns null when no city is close enough', () => {
+    // Middle of the Atlantic
+    expect(findNearestCity(30, -40)).toBeNull();
+    expect(findNearestCity(28.7, 77.1, 1)).toBeNull();
+  });
+});
+
+describe('normalizePlace', () => {
+  it('maps alternate city and country names to gazetteer names', () => {
+    expect(normalizePlace({ city: 'Delhi', country: 'India' })).toEqual({
+      city: 'New Delhi',
+      country: 'India',
+    });
+    expect(normalizePlace({ city: 'Dubai', country: 'UAE' })).toEqual({
+      city: 'Dubai',
+      country: 'United Arab Emirates',
+    });
+  });
+
+  it('maps GeoNames alternate names to the city name', () => {
+    expect(normalizePlace({ city: 'Lisboa', country: 'Portugal' })).toEqual({
+      city: 'Lisbon',
+      country: 'Portugal',
+    });
+    expect(normalizePlace({ city: 'Bombay', country: 'India' })).toEqual({
+      city: 'Mumbai',
+      country: 'India',
+    });
+  });
+
+  it('only applies city aliases within their country', () => {
+    expect(normalizePlace({ city: 'Delhi', country: 'Canada' })).toEqual({
+      city: 'Delhi',
+      country: 'Canada',
+    });
+  });
+});
@@ -0,0 +1,197 @@
+import { afterAll, beforeEach, describe, expect, it } from 'bun:test';
+import {
+  createGitHubClient,
+  getIssueOutcomeLabel,
+  GitHubRequestError,
+  STATUS_COMMENT_MARKER,
+} from '@src/github';
+
+type RecordedRequest = { method: string; path: string; body: any };
+type FakeResponse = {
+  status: number;
+  body?: unknown;
+  headers?: Record<string, string>;
+};
+
+// A stand-in for the GitHub API: requests are recorded and answered from a
+// queue, falling back to the stored comments or a created comment
+let requests: RecordedRequest[] = [];
+let responses: FakeResponse[] = [];
+let comments: { id: number; body: string }[] = [];
+
+const server = Bun.serve({
+  port: 0,
+  async fetch(request) {
+    const url = new URL(request.url);
+    const text = await request.text();
+    requests.push({
+      method: request.method,
+      path: `${url.pathname}${url.search}`,
+      body: text ? JSON.parse(text) : null,
+    });
+
+    const response = responses.shift();
+    if (response) {
+      return Response.json(response.body ?? {}, {
+        status: response.status,
+        headers: response.headers,
+      });
+    }
+    if (request.method === 'GET' && url.pathname.endsWith('/comments')) {
+      return Response.json(comments);
+    }
+    return Response.json({ id: 99 }, { status: 201 });
+  },
+});
+
+afterAll(() => {
+  server.stop(true);
+});
+
+const sleeps: number[] = [];
+
+function createClient() {
+  return createGitHubClient({
+    token: 'test-token',
+    repository: 'owner/repo',
+    issueNumber: 7,
+    baseUrl: `http://localhost:${server.port}`,
+    sleep: async (ms) => {
+      sleeps.push(ms);
+    },
+  });
+}
+
+beforeEach(() => {
+  requests = [];
+  responses = [];
+  comments = [];
+  sleeps.length = 0;
+});
+
+describe('createGitHubClient', () => {
+  it('posts comments to the issue', async () => {
+    await createClient().comment('Hello');
+
+    expect(requests).toEqual([
+      {
+        method: 'POST',
+        path: '/repos/owner/repo/issues/7/comments',
+        body: { body: 'Hello' },
+      },
+    ]);
+  });
+
+  it('creates the status comment once and edits it afterwards', async () => {
+    const client = createClient();
+
+    await client.upsertStatusComment('Processing');
+    await client.upsertStatusComment('Done');
+
+    expect(requests.map(({ method, path }) => `${method} ${path}`)).toEqual([
+      'GET /repos/owner/repo/issues/7/comments?per_page=100',
+      'POST /repos/owner/repo/issues/7/comments',
+      'PATCH /repos/owner/repo/issues/comments/99',
+    ]);
+    expect(requests[2].body).toEqual({
+      body: `${STATUS_COMMENT_MARKER}\nDone`,
+    });
+  });
+
+  it('edits a status comment left by the workflow', async () => {
+    comments = [
+      { id: 1, body: 'Unrelated' },
+      { id: 42, body: `${STATUS_COMMENT_MARKER}\n🔄 Workflow running` },
+    ];
+
+    await createClient().upsertStatusComment('Done');
+
+    expect(requests[1]).toMatchObject({
+      method: 'PATCH',
+      path: '/repos/owner/repo/issues/comments/42',
+    });
+  });
+
+  it('adds labels and ignores removing a label the issue lacks', async () => {
+    const client = createClient();
+    responses = [{ status: 200 }, { status: 404 }];
+
+    await client.addLabels(['ingested']);
+    await client.removeLabel('processing');
+
+    expect(requests[0]).toMatchObject({
+      method: 'POST',
+      path: '/repos/owner/repo/issues/7/labels',
+      body: { labels: ['ingested'] },
+    });
+    expect(requests[1]).toMatchObject({
+      method: 'DELETE',
+      path: '/repos/owner/repo/issues/7/labels/processing',
+    });
+  });
+
+  it('closes the issue with a reason', async () => {
+    await createClient().close('not_planned');
+
+    expect(requests[0]).toMatchObject({
+      method: 'PATCH',
+      path: '/repos/owner/repo/issues/7',
+      body: { state: 'closed', state_reason: 'not_planned' },
+    });
+  });
+
+  it('retries server errors with exponential backoff', async () => {
+    responses = [{ status: 502 }, { status: 503 }];
+
+    await createClient().comment('Hello');
+
+    expect(requests).toHaveLength(3);
+    expect(sleeps).toEqual([1000, 2000]);
+  });
+
+  it('waits for retry-after when rate limited', async () => {
+    responses = [
+      {
+        status: 403,
+        headers: { 'x-ratelimit-remaining': '0', 'retry-after': '5' },
+      },
+    ];
+
+    await createClient().addLabels(['ingested']);
+
+    expect(requests).toHaveLength(2);
+    expect(sleeps).toEqual([5000]);
+  });
+
+  it('gives up after the configured retries', async () => {
+    responses = Array.from({ length: 4 }, () => ({ status: 500 }));
+
+    const error = await createClient()
+      .comment('Hello')
+      .catch((error) => error);
+
+    expect(error).toBeInstanceOf(GitHubRequestError);
+    expect(error.status).toBe(500);
+    expect(requests).toHaveLength(4);
+  });
+
+  it('does not retry client errors', async () => {
+    responses = [{ status: 422 }];
+
+    await expect(createClient().addLabels([''])).rejects.toBeInstanceOf(
+      GitHubRequestError
+    );
+    expect(requests).toHaveLength(1);
+    expect(sleeps).toEqual([]);
+  });
+});
+
+describe('getIssueOutcomeLabel', () => {
+  it('labels results by how much was saved', () => {
+    expect(getIssueOutcomeLabel({ success: true })).toBe('ingested');
+    expect(getIssueOutcomeLabel({ success: false, partial: true })).toBe(
+      'partial'
+    );
+    expect(getIssueOutcomeLabel({ success: false })).toBe('rejected');
+  });
+});
@@ -1,5 +1,14 @@
 import { expect, describe, it, beforeEach } from 'bun:test';
-import { ingestHealthDataFromIssue, HealthDataIssue } from '@src/healthkit';
+import {
+  buildMergedDailyView,
+  ingestHealthDataFromIssue,
+  HealthDataIssue,
+} from '@src/healthkit';
+import {
+  defineQuantityMetric,
+  registerMetric,
+  unregisterMetric,
+} from '@src/healthkit-metrics';
 
 type WriterFunction = (path: string, content: string) => Promise<void>;
 type ReaderFunction = (path: string) => Promise<string>;
@@ -154,6 +163,40 @@ describe('ingestHealthDataFromIssue', () => {
     expect(commentsPosted.length).toBe(0); // No comments posted
   });
 
+  it('should summarise per-metric results in a table', async () => {
+    readFiles.set(
+      './test-vault/healthkit/hr.json',
+      JSON.stringify({
+        metrics: [
+          {
+            Max: 90,
+            Avg: 64,
+            Min: 50,
+            source: 'Ultrahuman',
+            date: '2025-10-27 00:00:00 +0530',
+          },
+        ],
+      })
+    );
+
+    const result = await ingestHealthDataFromIssue(
+      sampleHealthDataIssue,
+      mockWriter,
+      mockReader,
+      mockCommenter,
+      './test-vault/healthkit'
+    );
+
+    expect(result).toMatchObject({ success: true, partial: false });
+    expect(commentsPosted).toHaveLength(1);
+    expect(commentsPosted[0]).toContain(
+      '| Metric | File | Status | New | Replaced | Total |'
+    );
+    expect(commentsPosted[0]).toContain(
+      '| heart_rate | hr.json | ✅ saved | 1 | 1 | 2 |'
+    );
+  });
+
   it('should successfully ingest health data for all metrics', async () => {
     const result = await ingestHealthDataFromIssue(
       sampleHealthDataIssue,
@@ -454,6 +497,151 @@ describe('ingestHealthDataFromIssue', () => {
     expect(writtenFiles.has('./test-vault/healthkit/hr.json')).toBe(true);
   });
 
+  it('should ingest quantity metrics from the extended catalogue', async () => {
+    const issue: HealthDataIssue = {
+      title: 'HealthDataExport',
+      body: JSON.stringify({
+        data: {
+          metrics: [
+            {
+              name: 'step_count',
+              units: 'count',
+              data: [
+                {
+                  date: '2025-10-27 00:00:00 +0530',
+                  qty: 8412,
+                  source: 'Apple Watch',
+                },
+              ],
+            },
+            {
+              name: 'weight_body_mass',
+              units: 'kg',
+              data: [{ qty: 72.4, date: '2025-10-27 00:00:00 +0530' }],
+            },
+            {
+              name: 'mindful_minutes',
+              units: 'min',
+              data: [{ qty: 20, date: '2025-10-27 00:00:00 +0530' }],
+            },
+          ],
+        },
+      }),
+    };
+
+    const result = await ingestHealthDataFromIssue(
+      issue,
+      mockWriter,
+      mockReader,
+      mockCommenter,
+      './test-vault/healthkit'
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.message).not.toContain('Skipping unknown metric');
+
+    const stepsData = JSON.parse(
+      writtenFiles.get('./test-vault/healthkit/steps.json')!
+    );
+    expect(stepsData.metrics).toEqual([
+      {
+        qty: 8412,
+        source: 'Apple Watch',
+        date: '2025-10-27 00:00:00 +0530',
+      },
+    ]);
+    expect(Object.keys(stepsData.metrics[0])).toEqual([
+      'qty',
+      'source',
+      'date',
+    ]);
+
+    const weightData = JSON.parse(
+      writtenFiles.get('./test-vault/healthkit/weight.json')!
+    );
+    expect(weightData.metrics[0].qty).toBe(72.4);
+
+    const mindfulData = JSON.parse(
+      writtenFiles.get('./test-vault/healthkit/mindfulMinutes.json')!
+    );
+    expect(mindfulData.metrics[0].qty).toBe(20);
+  });
+
+  it('should reject unexpected units for extended catalogue metrics', async () => {
+    const issue: HealthDataIssue = {
+      title: 'HealthDataExport',
+      body: JSON.stringify({
+        data: {
+          metrics: [
+            {
+              name: 'active_energy',
+              units: 'kJ',
+              data: [{ qty: 2100, date: '2025-10-27 00:00:00 +0530' }],
+            },
+          ],
+        },
+      }),
+    };
+
+    const result = await ingestHealthDataFromIssue(
+      issue,
+      mockWriter,
+      mockReader,
+      mockCommenter,
+      './test-vault/healthkit'
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.message).toContain(
+      'Invalid data for known metric active_energy'
+    );
+    expect(writerCallCount).toBe(0);
+  });
+
+  it('should ingest metrics registered outside the built-in catalogue', async () => {
+    registerMetric(
+      defineQuantityMetric({
+        name: 'headphone_audio_exposure',
+        units: 'dBASPL',
+        fileName: 'headphoneAudio.json',
+      })
+    );
+
+    try {
+      const result = await ingestHealthDataFromIssue(
+        {
+          title: 'HealthDataExport',
+          body: JSON.stringify({
+            data: {
+              metrics: [
+                {
+                  name: 'headphone_audio_exposure',
+                  units: 'dBASPL',
+                  data: [{ date: '2025-10-27 00:00:00 +0530', qty: 71.2 }],
+                },
+              ],
+            },
+          }),
+        },
+        mockWriter,
+        mockReader,
+        mockCommenter,
+        './test-vault/healthkit'
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.message).toContain('headphoneAudio.json');
+      const audioData = JSON.parse(
+        writtenFiles.get('./test-vault/healthkit/headphoneAudio.json')!
+      );
+      expect(audioData.metrics).toEqual([
+        { qty: 71.2, date: '2025-10-27 00:00:00 +0530' },
+      ]);
+    } finally {
+      unregisterMetric('headphone_audio_exposure');
+    }
+  });
+
   it('should fail instead of silently skipping invalid known metrics', async () => {
     const issue: HealthDataIssue = {
       title: 'HealthDataExport',
@@ -484,12 +672,59 @@ describe('ingestHealthDataFromIssue', () => {
     );
 
     expect(result.success).toBe(false);
-    expect(result.message).toContain('Invalid data for known metric heart_rate');
+    expect(result.message).toContain(
+      'Invalid data for known metric heart_rate'
+    );
     expect(writerCallCount).toBe(0);
     expect(commentsPosted[0]).toContain('❌');
   });
 
-  it('should overwrite old data with new data for the same date across multiple ingestions', async () => {
+  it('should abort and quarantine when an existing file fails its metric schema', async () => {
+    const corruptHrContent = JSON.stringify({
+      metrics: [{ Max: '90', date: '2025-10-26 00:00:00 +0530' }],
+    });
+    readFiles.set('./test-vault/healthkit/hr.json', corruptHrContent);
+
+    const result = await ingestHealthDataFromIssue(
+      sampleHealthDataIssue,
+      mockWriter,
+      mockReader,
+      mockCommenter,
+      './test-vault/healthkit'
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.message).toContain('Aborted ingestion');
+    expect(result.message).toContain('heart_rate schema');
+
+    // Only the quarantine copy is written, no metric file is touched
+    expect(writerCallCount).toBe(1);
+    const [quarantinePath] = [...writtenFiles.keys()];
+    expect(quarantinePath).toStartWith(
+      './test-vault/healthkit/hr.json.quarantine-'
+    );
+    expect(writtenFiles.get(quarantinePath)).toBe(corruptHrContent);
+    expect(commentsPosted[0]).toContain('❌');
+  });
+
+  it('should abort instead of starting fresh when an existing file is not JSON', async () => {
+    readFiles.set('./test-vault/healthkit/sleep.json', '{"metrics": [');
+
+    const result = await ingestHealthDataFromIssue(
+      sampleHealthDataIssue,
+      mockWriter,
+      mockReader,
+      mockCommenter,
+      './test-vault/healthkit'
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.message).toContain('sleep.json is not valid JSON');
+    expect(writtenFiles.has('./test-vault/healthkit/sleep.json')).toBe(false);
+    expect(writtenFiles.has('./test-vault/healthkit/hr.json')).toBe(false);
+  });
+
+  it('should overwrite old data with new data for the same date and source across multiple ingestions', async () => {
     // First ingestion with initial data
     const firstIssue: HealthDataIssue = {
       title: 'HealthDataExport',
@@ -554,8 +789,8 @@ describe('ingestHealthDataFromIssue', () => {
                   Max: 100,
                   Avg: 70,
                   Min: 55,
-                  source: 'Apple Watch',
-                  date: '2025-10-27 00:00:00 +0530', // Same date
+                  source: 'Ultrahuman',
+                  date: '2025-10-27 00:00:00 +0530', // Same date and source
                 },
               ],
             },
@@ -591,7 +826,6 @@ describe('ingestHealthDataFromIssue', () => {
     expect(hrFinalData.metrics[0].Max).toBe(100); // New value, not 90
     expect(hrFinalData.metrics[0].Avg).toBe(70); // New value, not 65
     expect(hrFinalData.metrics[0].Min).toBe(55); // New value, not 50
-    expect(hrFinalData.metrics[0].source).toBe('Apple Watch'); // New value, not "Ultrahuman"
 
     const hrvFinalContent = writtenFiles.get('./test-vault/healthkit/hrv.json');
     expect(hrvFinalContent).toBeDefined();
@@ -601,6 +835,292 @@ describe('ingestHealthDataFromIssue', () => {
     expect(hrvFinalData.metrics[0].qty).toBe(95.5); // New value, not 85.0
   });
 
+  it('should replace a daily row for the same local day recorded under a new offset', async () => {
+    readFiles.set(
+      './test-vault/healthkit/restingHeartRate.json',
+      JSON.stringify({
+        metrics: [
+          { qty: 58, date: '2025-10-28 00:00:00 +0530' },
+          { qty: 57, date: '2025-10-29 00:00:00 +0530' },
+        ],
+      })
+    );
+
+    await ingestHealthDataFromIssue(
+      {
+        title: 'HealthDataExport',
+        body: JSON.stringify({
+          data: {
+            metrics: [
+              {
+                name: 'resting_heart_rate',
+                units: 'count/min',
+                data: [
+                  { qty: 56, date: '2025-10-29 00:00:00 +0700' },
+                  { qty: 59, date: '2025-10-28 00:00:00 +0000' },
+                ],
+              },
+            ],
+          },
+        }),
+      },
+      mockWriter,
+      mockReader,
+      mockCommenter,
+      './test-vault/healthkit'
+    );
+
+    const restingHeartRateData = JSON.parse(
+      writtenFiles.get('./test-vault/healthkit/restingHeartRate.json')!
+    );
+    expect(restingHeartRateData.metrics).toEqual([
+      { qty: 59, date: '2025-10-28 00:00:00 +0000' },
+      { qty: 56, date: '2025-10-29 00:00:00 +0700' },
+    ]);
+  });
+
+  it('should keep rows recorded at different times of the same day', async () => {
+    readFiles.set(
+      './test-vault/healthkit/hrv.json',
+      JSON.stringify({
+        metrics: [{ qty: 88, date: '2025-10-28 07:15:00 +0530' }],
+      })
+    );
+
+    await ingestHealthDataFromIssue(
+      {
+        title: 'HealthDataExport',
+        body: JSON.stringify({
+          data: {
+            metrics: [
+              {
+                name: 'heart_rate_variability',
+                units: 'ms',
+                data: [
+                  { qty: 91, date: '2025-10-28 22:40:00 +0530' },
+                  // The 07:15 row again, exported under a different offset
+                  { qty: 89, date: '2025-10-28 02:45:00 +0100' },
+                ],
+              },
+            ],
+          },
+        }),
+      },
+      mockWriter,
+      mockReader,
+      mockCommenter,
+      './test-vault/healthkit'
+    );
+
+    const hrvData = JSON.parse(
+      writtenFiles.get('./test-vault/healthkit/hrv.json')!
+    );
+    expect(hrvData.metrics).toEqual([
+      { qty: 89, date: '2025-10-28 02:45:00 +0100' },
+      { qty: 91, date: '2025-10-28 22:40:00 +0530' },
+    ]);
+  });
+
+  it('should keep rows from different sources for the same date', async () => {
+    readFiles.set(
+      './test-vault/healthkit/hr.json',
+      JSON.stringify({
+        metrics: [
+          {
+            Max: 90,
+            Avg: 65,
+            Min: 50,
+            source: 'Ultrahuman',
+            date: '2025-10-27 00:00:00 +0530',
+          },
+        ],
+      })
+    );
+
+    const result = await ingestHealthDataFromIssue(
+      {
+        title: 'HealthDataExport',
+        body: JSON.stringify({
+          data: {
+            metrics: [
+              {
+                name: 'heart_rate',
+                units: 'count/min',
+                data: [
+                  {
+                    Max: 100,
+                    Avg: 70,
+                    Min: 55,
+                    source: 'Apple Watch',
+                    date: '2025-10-27 00:00:00 +0530',
+                  },
+                ],
+              },
+            ],
+          },
+        }),
+      },
+      mockWriter,
+      mockReader,
+      mockCommenter,
+      './test-vault/healthkit'
+    );
+
+    expect(result.success).toBe(true);
+    const hrData = JSON.parse(
+      writtenFiles.get('./test-vault/healthkit/hr.json')!
+    );
+    expect(hrData.metrics.map((m: any) => m.source).sort()).toEqual([
+      'Apple Watch',
+      'Ultrahuman',
+    ]);
+  });
+
+  it('should merge exported workouts into the workout log', async () => {
+    readFiles.set(
+      './test-vault/workouts.json',
+      JSON.stringify([
+        { date: '2025-10-27', note: 'NTC Workout' },
+        { date: '2025-10-28', note: 'posterior chain workout' },
+      ])
+    );
+
+    const result = await ingestHealthDataFromIssue(
+      {
+        title: 'HealthDataExport',
+        body: JSON.stringify({
+          data: {
+            metrics: [],
+            workouts: [
+              {
+                name: 'Traditional Strength Training',
+                start: '2025-10-28 07:00:00 +0530',
+                end: '2025-10-28 07:45:00 +0530',
+                duration: 2700,
+                activeEnergyBurned: { qty: 1255.2, units: 'kJ' },
+                heartRate: {
+                  min: { qty: 80, units: 'count/min' },
+                  avg: { qty: 121, units: 'count/min' },
+                  max: { qty: 160, units: 'count/min' },
+                },
+              },
+              {
+                name: 'Outdoor Run',
+                start: '2025-10-29 00:30:00 +0530',
+                end: '2025-10-29 01:00:00 +0530',
+                activeEnergy: { qty: 320, units: 'kcal' },
+                distance: { qty: 3, units: 'mi' },
+                avgHeartRate: { qty: 150, units: 'count/min' },
+              },
+            ],
+          },
+        }),
+      },
+      mockWriter,
+      mockReader,
+      mockCommenter,
+      './test-vault/healthkit',
+      './test-vault/workouts.json'
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.message).toContain(
+      'Saved 1 new and 1 updated workouts to workouts.json'
+    );
+    expect(JSON.parse(writtenFiles.get('./test-vault/workouts.json')!)).toEqual(
+      [
+        { date: '2025-10-27', note: 'NTC Workout' },
+        {
+          date: '2025-10-28',
+          note: 'posterior chain workout',
+          type: 'Traditional Strength Training',
+          start: '2025-10-28 07:00:00 +0530',
+          end: '2025-10-28 07:45:00 +0530',
+          durationMinutes: 45,
+          activeEnergyKcal: 300,
+          avgHeartRate: 121,
+        },
+        {
+          date: '2025-10-29',
+          note: 'Outdoor Run',
+          type: 'Outdoor Run',
+          start: '2025-10-29 00:30:00 +0530',
+          end: '2025-10-29 01:00:00 +0530',
+          durationMinutes: 30,
+          activeEnergyKcal: 320,
+          distanceKm: 4.83,
+          avgHeartRate: 150,
+        },
+      ]
+    );
+  });
+
+  it('should replace a re-exported workout with the same start time', async () => {
+    readFiles.set(
+      './test-vault/workouts.json',
+      JSON.stringify([
+        {
+          date: '2025-10-28',
+          note: 'legs',
+          type: 'Traditional Strength Training',
+          start: '2025-10-28 07:00:00 +0530',
+          end: '2025-10-28 07:30:00 +0530',
+          durationMinutes: 30,
+        },
+      ])
+    );
+
+    await ingestHealthDataFromIssue(
+      {
+        title: 'HealthDataExport',
+        body: JSON.stringify({
+          data: {
+            metrics: [],
+            workouts: [
+              {
+                name: 'Traditional Strength Training',
+                start: '2025-10-28 07:00:00 +0530',
+                end: '2025-10-28 07:45:00 +0530',
+              },
+            ],
+          },
+        }),
+      },
+      mockWriter,
+      mockReader,
+      mockCommenter,
+      './test-vault/healthkit',
+      './test-vault/workouts.json'
+    );
+
+    const workouts = JSON.parse(
+      writtenFiles.get('./test-vault/workouts.json')!
+    );
+    expect(workouts).toHaveLength(1);
+    expect(workouts[0].note).toBe('legs');
+    expect(workouts[0].durationMinutes).toBe(45);
+  });
+
+  it('should reject workouts without start and end times', async () => {
+    const result = await ingestHealthDataFromIssue(
+      {
+        title: 'HealthDataExport',
+        body: JSON.stringify({
+          data: { metrics: [], workouts: [{ name: 'Yoga' }] },
+        }),
+      },
+      mockWriter,
+      mockReader,
+      mockCommenter,
+      './test-vault/healthkit',
+      './test-vault/workouts.json'
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.message).toContain('Invalid workouts data');
+    expect(writtenFiles.has('./test-vault/workouts.json')).toBe(false);
+  });
+
   it('should maintain key order across multiple ingestions', async () => {
     // First ingestion
     const firstIssue: HealthDataIssue = {
@@ -917,3 +1437,34 @@ describe('ingestHealthDataFromIssue', () => {
     ]);
   });
 });
+
+describe('buildMergedDailyView', () => {
+  const rows = [
+    { Avg: 64, source: 'Apple Watch', date: '2025-10-27 00:00:00 +0530' },
+    { Avg: 61, source: 'Ultrahuman', date: '2025-10-27 00:00:00 +0530' },
+    { Avg: 66, source: 'Apple Watch', date: '2025-10-28 00:00:00 +0530' },
+  ];
+
+  it('should pick the highest priority source for each day', () => {
+    const merged = buildMergedDailyView(rows, 'heart_rate', {
+      default: ['Ultrahuman', 'Apple Watch'],
+    });
+
+    expect(merged).toEqual([rows[1], rows[2]]);
+  });
+
+  it('should prefer a per-metric priority over the default', () => {
+    const merged = buildMergedDailyView(rows, 'heart_rate', {
+      default: ['Ultrahuman'],
+      metrics: { heart_rate: ['Apple Watch'] },
+    });
+
+    expect(merged).toEqual([rows[0], rows[2]]);
+  });
+
+  it('should keep the first row when no source is ranked', () => {
+    const merged = buildMergedDailyView(rows, 'heart_rate', { default: [] });
+
+    expect(merged).toEqual([rows[0], rows[2]]);
+  });
+});
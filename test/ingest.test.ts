@@ -0,0 +1,45 @@
+import { afterAll, beforeAll, describe, expect, it } from 'bun:test';
+import { mkdir, rm } from 'node:fs/promises';
+import { expandIngestPaths, readIngestSources } from '@src/ingest';
+
+const testDir = '/tmp/state-of-being-ingest-test';
+
+describe('expandIngestPaths', () => {
+  beforeAll(async () => {
+    await rm(testDir, { recursive: true, force: true });
+    await mkdir(`${testDir}/exports/2025`, { recursive: true });
+    await Bun.write(`${testDir}/exports/2025/b.json`, '{"city":"Paris"}');
+    await Bun.write(`${testDir}/exports/2025/a.json`, '{"city":"Lisbon"}');
+    await Bun.write(`${testDir}/exports/notes.txt`, 'not an export');
+  });
+
+  afterAll(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  it('expands globs into sorted paths and keeps plain paths as given', async () => {
+    expect(
+      await expandIngestPaths(
+        ['exports/**/*.json', 'exports/notes.txt', 'exports/2025/a.json'],
+        testDir
+      )
+    ).toEqual([
+      'exports/2025/a.json',
+      'exports/2025/b.json',
+      'exports/notes.txt',
+    ]);
+  });
+
+  it('reads every matched file', async () => {
+    expect(await readIngestSources(['exports/*/*.json'], testDir)).toEqual([
+      { name: 'exports/2025/a.json', body: '{"city":"Lisbon"}' },
+      { name: 'exports/2025/b.json', body: '{"city":"Paris"}' },
+    ]);
+  });
+
+  it('fails when a glob matches nothing', async () => {
+    await expect(
+      readIngestSources(['missing/*.json'], testDir)
+    ).rejects.toThrow('No files match missing/*.json');
+  });
+});
@@ -0,0 +1,134 @@
+import { afterAll, describe, expect, it } from 'bun:test';
+import { mkdir, rm } from 'node:fs/promises';
+import {
+  buildLocationStays,
+  buildLocationStaysIndex,
+  generateLocationStays,
+} from '@src/location-stays';
+
+const testDir = '/tmp/state-of-being-location-stays-test';
+
+const locations = [
+  { date: '2024-12-20', city: 'New Delhi', country: 'India' },
+  { date: '2025-01-03', city: 'Rome', country: 'Italy' },
+  { date: '2025-01-05', city: 'Fiumicino', country: 'Italy' },
+  { date: '2025-01-05', city: 'Lisbon', country: 'Portugal' },
+  { date: '2025-01-10', city: 'New Delhi', country: 'India' },
+];
+
+describe('buildLocationStays', () => {
+  it('ends each stay where the next begins and runs the last to asOf', () => {
+    expect(buildLocationStays(locations, '2025-01-12')).toEqual([
+      {
+        city: 'New Delhi',
+        country: 'India',
+        start: '2024-12-20',
+        end: '2025-01-03',
+        days: 14,
+      },
+      {
+        city: 'Rome',
+        country: 'Italy',
+        start: '2025-01-03',
+        end: '2025-01-05',
+        days: 2,
+      },
+      {
+        city: 'Fiumicino',
+        country: 'Italy',
+        start: '2025-01-05',
+        end: '2025-01-05',
+        days: 0,
+      },
+      {
+        city: 'Lisbon',
+        country: 'Portugal',
+        start: '2025-01-05',
+        end: '2025-01-10',
+        days: 5,
+      },
+      {
+        city: 'New Delhi',
+        country: 'India',
+        start: '2025-01-10',
+        end: null,
+        days: 3,
+      },
+    ]);
+  });
+
+  it('ignores entries after asOf', () => {
+    const stays = buildLocationStays(locations, '2025-01-04');
+
+    expect(stays).toHaveLength(2);
+    expect(stays[1]).toMatchObject({ city: 'Rome', end: null, days: 2 });
+  });
+});
+
+describe('buildLocationStaysIndex', () => {
+  it('adds up days for alternate names of the same place', () => {
+    const index = buildLocationStaysIndex(
+      [
+        { date: '2025-02-01', city: 'Delhi', country: 'India' },
+        { date: '2025-02-03', city: 'Dubai', country: 'UAE' },
+        { date: '2025-02-05', city: 'New Delhi', country: 'India' },
+      ],
+      'India',
+      '2025-02-06'
+    );
+
+    expect(index.years['2025'].cities).toEqual({
+      'New Delhi, India': 4,
+      'Dubai, United Arab Emirates': 2,
+    });
+  });
+
+  it('counts days per country and city per year and days abroad', () => {
+    const index = buildLocationStaysIndex(locations, 'India', '2025-01-12');
+
+    expect(index.years['2024']).toEqual({
+      daysTracked: 12,
+      daysAbroad: 0,
+      countries: { India: 12 },
+      cities: { 'New Delhi, India': 12 },
+    });
+    expect(index.years['2025']).toEqual({
+      daysTracked: 12,
+      daysAbroad: 7,
+      countries: { India: 5, Italy: 2, Portugal: 5 },
+      cities: {
+        'New Delhi, India': 5,
+        'Rome, Italy': 2,
+        'Lisbon, Portugal': 5,
+      },
+    });
+    expect(index.countriesVisited).toEqual(['India', 'Italy', 'Portugal']);
+  });
+});
+
+describe('generateLocationStays', () => {
+  afterAll(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  it('writes the stays index next to the location file', async () => {
+    const locationPath = `${testDir}/location.json`;
+    const savePath = `${testDir}/location-stays.json`;
+
+    await rm(testDir, { recursive: true, force: true });
+    await mkdir(testDir, { recursive: true });
+    await Bun.write(locationPath, JSON.stringify(locations));
+
+    const result = await generateLocationStays({
+      locationPath,
+      savePath,
+      homeCountry: 'India',
+      asOf: '2025-01-12',
+    });
+    const index = await Bun.file(savePath).json();
+
+    expect(result.count).toBe(5);
+    expect(index.homeCountry).toBe('India');
+    expect(index.years['2025'].daysAbroad).toBe(7);
+  });
+});
@@ -5,6 +5,7 @@ import {
   parseLocationData,
   validateLocationIssueTitle,
   readExistingLocationData,
+  LocationDataFileValidationError,
 } from "@src/location";
 
 type WriterFunction = (path: string, content: string) => Promise<void>;
@@ -139,24 +140,20 @@ describe("ingestLocationDataFromIssue", () => {
       expect(result).toEqual(existingData);
     });
 
-    it("should return empty array for invalid JSON", async () => {
+    it("should throw for invalid JSON", async () => {
       readFiles.set("./test-vault/location.json", "invalid json");
 
-      const result = await readExistingLocationData(
-        "./test-vault/location.json",
-        mockReader
-      );
-      expect(result).toEqual([]);
+      await expect(
+        readExistingLocationData("./test-vault/location.json", mockReader)
+      ).rejects.toBeInstanceOf(LocationDataFileValidationError);
     });
 
-    it("should return empty array for invalid structure", async () => {
+    it("should throw for invalid structure", async () => {
       readFiles.set("./test-vault/location.json", '{"invalid": "structure"}');
 
-      const result = await readExistingLocationData(
-        "./test-vault/location.json",
-        mockReader
-      );
-      expect(result).toEqual([]);
+      await expect(
+        readExistingLocationData("./test-vault/location.json", mockReader)
+      ).rejects.toThrow("does not match the location schema");
     });
   });
 
@@ -308,21 +305,20 @@ describe("ingestLocationDataFromIssue", () => {
       expect(commentsPosted[0]).toContain("same as the last entry");
     });
 
-    it("should skip update even if country is different but city is same", async () => {
+    it("should add an entry when the city is the same but the country differs", async () => {
       const existingData = [
-        { date: "2025-01-01", city: "New Delhi", country: "India" },
+        { date: "2025-01-01", city: "Cambridge", country: "United Kingdom" },
       ];
       readFiles.set(
         "./test-vault/location.json",
         JSON.stringify(existingData)
       );
 
-      // Same city, different country (edge case)
       const issue: LocationDataIssue = {
         title: "LocationDataExport",
         body: JSON.stringify({
-          city: "New Delhi",
-          country: "Bharat", // Different country
+          city: "Cambridge",
+          country: "United States",
         }),
       };
 
@@ -335,8 +331,12 @@ describe("ingestLocationDataFromIssue", () => {
       );
 
       expect(result.success).toBe(true);
-      expect(result.message).toContain("Location not updated");
-      expect(writerCallCount).toBe(0); // Should not write
+      expect(result.message).toContain("Successfully updated location");
+      const locationData = JSON.parse(
+        writtenFiles.get("./test-vault/location.json")!
+      );
+      expect(locationData).toHaveLength(2);
+      expect(locationData[1].country).toBe("United States");
     });
   });
 
@@ -401,6 +401,31 @@ describe("ingestLocationDataFromIssue", () => {
       expect(commentsPosted.length).toBe(1);
       expect(commentsPosted[0]).toContain("❌");
     });
+
+    it("should abort and quarantine instead of overwriting an invalid file", async () => {
+      const corruptContent = JSON.stringify([{ date: "2025-01-01" }]);
+      readFiles.set("./test-vault/location.json", corruptContent);
+
+      const result = await ingestLocationDataFromIssue(
+        sampleLocationDataIssue,
+        mockWriter,
+        mockReader,
+        mockCommenter,
+        "./test-vault/location.json"
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.message).toContain("Aborted ingestion");
+
+      // Only the quarantine copy is written, the location file is untouched
+      expect(writerCallCount).toBe(1);
+      const [quarantinePath] = [...writtenFiles.keys()];
+      expect(quarantinePath).toStartWith(
+        "./test-vault/location.json.quarantine-"
+      );
+      expect(writtenFiles.get(quarantinePath)).toBe(corruptContent);
+      expect(commentsPosted[0]).toContain("❌");
+    });
   });
 
   describe("ingestLocationDataFromIssue - multiple entries", () => {
@@ -497,6 +522,312 @@ describe("ingestLocationDataFromIssue", () => {
     });
   });
 
+  describe("ingestLocationDataFromIssue - arrival details", () => {
+    it("should date the entry by the issue creation time", async () => {
+      const result = await ingestLocationDataFromIssue(
+        { ...sampleLocationDataIssue, createdAt: "2025-03-04T22:10:00Z" },
+        mockWriter,
+        mockReader,
+        mockCommenter,
+        "./test-vault/location.json"
+      );
+
+      expect(result.success).toBe(true);
+      const locationData = JSON.parse(
+        writtenFiles.get("./test-vault/location.json")!
+      );
+      expect(locationData[0]).toEqual({
+        date: "2025-03-04",
+        city: "New Delhi",
+        country: "India",
+        arrivedAt: "2025-03-04T22:10:00Z",
+      });
+    });
+
+    it("should ignore an issue creation time without an offset", async () => {
+      const result = await ingestLocationDataFromIssue(
+        { ...sampleLocationDataIssue, createdAt: "March 4th" },
+        mockWriter,
+        mockReader,
+        mockCommenter,
+        "./test-vault/location.json"
+      );
+
+      expect(result.success).toBe(true);
+      const locationData = JSON.parse(
+        writtenFiles.get("./test-vault/location.json")!
+      );
+      expect(locationData[0].arrivedAt).toBeUndefined();
+      expect(locationData[0].date).toBe(new Date().toISOString().split("T")[0]);
+
+      // The entry can be read back, so the next ingestion still works
+      expect(
+        await readExistingLocationData("./test-vault/location.json", async () =>
+          writtenFiles.get("./test-vault/location.json")!
+        )
+      ).toEqual(locationData);
+    });
+
+    it("should store coordinates, timezone and source and prefer the payload arrival", async () => {
+      const issue: LocationDataIssue = {
+        title: "LocationDataExport",
+        createdAt: "2025-03-06T09:00:00Z",
+        body: JSON.stringify({
+          city: "New Delhi",
+          country: "India",
+          latitude: 28.6139,
+          longitude: 77.209,
+          timezone: "Asia/Kolkata",
+          arrivedAt: "2025-03-04T20:00:00Z",
+          source: "shortcut",
+        }),
+      };
+
+      await ingestLocationDataFromIssue(
+        issue,
+        mockWriter,
+        mockReader,
+        mockCommenter,
+        "./test-vault/location.json"
+      );
+
+      const locationData = JSON.parse(
+        writtenFiles.get("./test-vault/location.json")!
+      );
+      // 20:00 UTC is already the next day in Asia/Kolkata
+      expect(locationData[0]).toEqual({
+        date: "2025-03-05",
+        city: "New Delhi",
+        country: "India",
+        latitude: 28.6139,
+        longitude: 77.209,
+        timezone: "Asia/Kolkata",
+        arrivedAt: "2025-03-04T20:00:00Z",
+        source: "shortcut",
+      });
+    });
+
+    it("should reject unknown time zones and half a coordinate pair", () => {
+      expect(
+        parseLocationData(
+          '{"city":"Lisbon","country":"Portugal","timezone":"Lisbon"}'
+        ).error
+      ).toContain("timezone: Expected an IANA time zone");
+      expect(
+        parseLocationData('{"city":"Lisbon","country":"Portugal","latitude":38.7}')
+          .error
+      ).toContain("longitude: latitude and longitude must be given together");
+    });
+  });
+
+  describe("ingestLocationDataFromIssue - backdated entries", () => {
+    const existingData = [
+      { date: "2025-01-01", city: "Paris", country: "France" },
+      { date: "2025-01-15", city: "Lisbon", country: "Portugal" },
+      { date: "2025-02-01", city: "Berlin", country: "Germany" },
+    ];
+
+    async function ingest(payload: object) {
+      readFiles.set("./test-vault/location.json", JSON.stringify(existingData));
+      const result = await ingestLocationDataFromIssue(
+        {
+          title: "LocationDataExport",
+          body: JSON.stringify(payload),
+          createdAt: "2025-03-01T10:00:00Z",
+        },
+        mockWriter,
+        mockReader,
+        mockCommenter,
+        "./test-vault/location.json"
+      );
+      const written = writtenFiles.get("./test-vault/location.json");
+      return { result, locations: written ? JSON.parse(written) : null };
+    }
+
+    it("should insert an entry with an explicit date in date order", async () => {
+      const { result, locations } = await ingest({
+        city: "Madrid",
+        country: "Spain",
+        date: "2025-01-20",
+      });
+
+      expect(result.message).toContain("Added: Madrid, Spain (2025-01-20)");
+      expect(locations.map((entry: any) => entry.city)).toEqual([
+        "Paris",
+        "Lisbon",
+        "Madrid",
+        "Berlin",
+      ]);
+      // The issue was opened long after the arrival, so it is not recorded
+      expect(locations[2].arrivedAt).toBeUndefined();
+    });
+
+    it("should skip an entry for the place we were already in", async () => {
+      const { result, locations } = await ingest({
+        city: "Lisbon",
+        country: "Portugal",
+        date: "2025-01-20",
+      });
+
+      expect(result.message).toContain(
+        "is the same as the entry on 2025-01-15"
+      );
+      expect(locations).toBeNull();
+    });
+
+    it("should replace a later arrival at the same place", async () => {
+      const { result, locations } = await ingest({
+        city: "Berlin",
+        country: "Germany",
+        date: "2025-01-25",
+      });
+
+      expect(result.message).toContain(
+        "Replaced the later arrival on 2025-02-01"
+      );
+      expect(locations).toHaveLength(3);
+      expect(locations[2]).toEqual({
+        date: "2025-01-25",
+        city: "Berlin",
+        country: "Germany",
+      });
+    });
+
+    it("should replace the entry for a date in correction mode", async () => {
+      const { result, locations } = await ingest({
+        city: "Porto",
+        country: "Portugal",
+        date: "2025-01-15",
+        correct: true,
+      });
+
+      expect(result.message).toBe(
+        "✅ Corrected location on 2025-01-15: Lisbon, Portugal → Porto, Portugal"
+      );
+      expect(locations).toHaveLength(3);
+      expect(locations[1]).toEqual({
+        date: "2025-01-15",
+        city: "Porto",
+        country: "Portugal",
+      });
+    });
+
+    it("should fail a correction when no entry exists on that date", async () => {
+      const { result, locations } = await ingest({
+        city: "Porto",
+        country: "Portugal",
+        date: "2025-01-16",
+        correct: true,
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.message).toBe("No location entry on 2025-01-16 to correct");
+      expect(locations).toBeNull();
+    });
+
+    it("should require a date for corrections", () => {
+      expect(
+        parseLocationData('{"city":"Porto","country":"Portugal","correct":true}')
+          .error
+      ).toContain("date: A correction needs the date");
+    });
+  });
+
+  describe("ingestLocationDataFromIssue - coordinates only", () => {
+    it("should look up the city, country and time zone offline", async () => {
+      const result = await ingestLocationDataFromIssue(
+        {
+          title: "LocationDataExport",
+          body: JSON.stringify({ lat: 41.15, lon: -8.62 }),
+          createdAt: "2025-06-15T23:30:00Z",
+        },
+        mockWriter,
+        mockReader,
+        mockCommenter,
+        "./test-vault/location.json"
+      );
+
+      expect(result.message).toContain("Added: Porto, Portugal (2025-06-16)");
+      const locationData = JSON.parse(
+        writtenFiles.get("./test-vault/location.json")!
+      );
+      expect(locationData[0]).toEqual({
+        date: "2025-06-16",
+        city: "Porto",
+        country: "Portugal",
+        latitude: 41.15,
+        longitude: -8.62,
+        timezone: "Europe/Lisbon",
+        arrivedAt: "2025-06-15T23:30:00Z",
+      });
+    });
+
+    it("should resolve places beyond the curated extra cities", async () => {
+      const result = await ingestLocationDataFromIssue(
+        {
+          title: "LocationDataExport",
+          body: JSON.stringify({ lat: 64.1466, lon: -21.9426 }),
+          createdAt: "2025-06-15T12:00:00Z",
+        },
+        mockWriter,
+        mockReader,
+        mockCommenter,
+        "./test-vault/location.json"
+      );
+
+      expect(result.success).toBe(true);
+      const locationData = JSON.parse(
+        writtenFiles.get("./test-vault/location.json")!
+      );
+      expect(locationData[0]).toMatchObject({
+        city: "Reykjavík",
+        country: "Iceland",
+        timezone: "Atlantic/Reykjavik",
+      });
+    });
+
+    it("should treat alternate names as the same place", async () => {
+      readFiles.set(
+        "./test-vault/location.json",
+        JSON.stringify([{ date: "2025-01-15", city: "Delhi", country: "India" }])
+      );
+
+      const result = await ingestLocationDataFromIssue(
+        {
+          title: "LocationDataExport",
+          body: JSON.stringify({ lat: 28.62, lon: 77.21 }),
+        },
+        mockWriter,
+        mockReader,
+        mockCommenter,
+        "./test-vault/location.json"
+      );
+
+      expect(result.message).toBe(
+        "Location not updated: New Delhi, India is the same as the last entry"
+      );
+      expect(writerCallCount).toBe(0);
+    });
+
+    it("should fail when no known city is nearby", async () => {
+      const result = await ingestLocationDataFromIssue(
+        {
+          title: "LocationDataExport",
+          body: JSON.stringify({ lat: 30, lon: -40 }),
+        },
+        mockWriter,
+        mockReader,
+        mockCommenter,
+        "./test-vault/location.json"
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.message).toContain("No known city within 50 km of 30, -40");
+      expect(commentsPosted[0]).toContain("❌");
+      expect(writerCallCount).toBe(0);
+    });
+  });
+
   describe("ingestLocationDataFromIssue - commenter behavior", () => {
     it("should not call commenter when it is not provided", async () => {
       const result = await ingestLocationDataFromIssue(
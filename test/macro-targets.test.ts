@@ -0,0 +1,165 @@
+import { describe, expect, it } from 'bun:test';
+import {
+  buildMacroAdherenceSummary,
+  getMacroTargets,
+  MacroTargetPeriod,
+  scoreMacroEntries,
+  scoreMacroEntry,
+} from '@src/macro-targets';
+import type { Measurement } from '@src/measurements';
+
+const periods: MacroTargetPeriod[] = [
+  {
+    from: '2026-08-01',
+    calories: 1800,
+    proteinPerKg: 2,
+    carbs_g: { min: 150, max: 200 },
+    fat_g: { min: 40, max: 60 },
+  },
+  {
+    from: '2026-07-01',
+    calories: 2000,
+    proteinPerKg: 1.6,
+    carbs_g: { min: 180, max: 260 },
+    fat_g: { min: 45, max: 70 },
+  },
+];
+
+const measurements: Measurement[] = [
+  { date: '2026-07-03', type: 'weight', value: 70, unit: 'kg' },
+  { date: '2026-07-03', type: 'waist', value: 80, unit: 'cm' },
+  { date: '2026-08-10', type: 'weight', value: 150, unit: 'lb' },
+];
+
+describe('getMacroTargets', () => {
+  it('uses the period in effect and the latest weight on or before the day', () => {
+    expect(getMacroTargets('2026-07-20', periods, measurements)).toEqual({
+      calories: 2000,
+      protein_g: 112,
+      carbs_g: { min: 180, max: 260 },
+      fat_g: { min: 45, max: 70 },
+    });
+    // 150 lb is 68 kg
+    expect(getMacroTargets('2026-08-12', periods, measurements)).toMatchObject({
+      calories: 1800,
+      protein_g: 136.1,
+    });
+  });
+
+  it('falls back to the first weight and skips days before any period', () => {
+    expect(
+      getMacroTargets('2026-07-01', periods, measurements)?.protein_g
+    ).toBe(112);
+    expect(getMacroTargets('2026-06-30', periods, measurements)).toBeNull();
+    expect(getMacroTargets('2026-07-01', periods, [])?.protein_g).toBeNull();
+  });
+});
+
+describe('scoreMacroEntry', () => {
+  const targets = {
+    calories: 2000,
+    protein_g: 100,
+    carbs_g: { min: 180, max: 260 },
+    fat_g: { min: 40, max: 60 },
+  };
+
+  it('scores a day inside every target as 1', () => {
+    expect(
+      scoreMacroEntry(
+        {
+          date: '2026-07-20',
+          calories: 2000,
+          carbs_g: 200,
+          protein_g: 120,
+          fat_g: 50,
+        },
+        targets
+      )
+    ).toEqual({
+      targets,
+      deltas: { calories: 0, protein_g: 20, carbs_g: 0, fat_g: 0 },
+      adherence: 1,
+    });
+  });
+
+  it('measures carbs and fat outside their range from the nearest bound', () => {
+    const { deltas, adherence } = scoreMacroEntry(
+      {
+        date: '2026-07-20',
+        calories: 1500,
+        carbs_g: 90,
+        protein_g: 50,
+        fat_g: 90,
+      },
+      targets
+    );
+
+    expect(deltas).toEqual({
+      calories: -500,
+      protein_g: -50,
+      carbs_g: -90,
+      fat_g: 30,
+    });
+    // Calories 0.75, carbs 0.5, fat 0.5 and protein 0.5
+    expect(adherence).toBe(0.56);
+  });
+});
+
+describe('buildMacroAdherenceSummary', () => {
+  it('averages scored days per ISO week and month', () => {
+    const scored = scoreMacroEntries(
+      [
+        {
+          date: '2026-06-30',
+          calories: 1000,
+          carbs_g: 100,
+          protein_g: 50,
+          fat_g: 30,
+        },
+        {
+          date: '2026-07-06',
+          calories: 2000,
+          carbs_g: 200,
+          protein_g: 112,
+          fat_g: 50,
+        },
+        {
+          date: '2026-07-07',
+          calories: 1840,
+          carbs_g: 200,
+          protein_g: 112,
+          fat_g: 50,
+        },
+      ],
+      periods,
+      measurements
+    );
+
+    expect(buildMacroAdherenceSummary(scored)).toEqual({
+      weeks: {
+        '2026-W28': {
+          start: '2026-07-06',
+          end: '2026-07-12',
+          days: 2,
+          coverage: 0.29,
+          adherence: 0.99,
+          deltas: { calories: -80, protein_g: 0, carbs_g: 0, fat_g: 0 },
+        },
+      },
+      months: {
+        '2026': {
+          '7': {
+            month: '7',
+            year: '2026',
+            start: '2026-07-01',
+            end: '2026-07-31',
+            days: 2,
+            coverage: 0.06,
+            adherence: 0.99,
+            deltas: { calories: -80, protein_g: 0, carbs_g: 0, fat_g: 0 },
+          },
+        },
+      },
+    });
+  });
+});
@@ -0,0 +1,138 @@
+import { afterAll, beforeEach, describe, expect, it } from 'bun:test';
+import {
+  createNotificationSinks,
+  createNotifier,
+  createStdoutSink,
+  createWebhookSink,
+  NotificationSink,
+  sendNotification,
+} from '@src/notifiers';
+
+let received: { headers: Headers; body: any }[] = [];
+let webhookStatus = 200;
+
+const server = Bun.serve({
+  port: 0,
+  async fetch(request) {
+    received.push({ headers: request.headers, body: await request.json() });
+    return new Response(null, { status: webhookStatus });
+  },
+});
+
+afterAll(() => {
+  server.stop(true);
+});
+
+beforeEach(() => {
+  received = [];
+  webhookStatus = 200;
+});
+
+const webhookUrl = `http://localhost:${server.port}/hook`;
+
+function createRecordingSink(name: string, messages: string[]) {
+  return {
+    name,
+    send: async (message: string) => {
+      messages.push(message);
+    },
+  } satisfies NotificationSink;
+}
+
+describe('createWebhookSink', () => {
+  it('posts the message as JSON with the configured headers', async () => {
+    await createWebhookSink(webhookUrl, { 'X-Token': 'abc' }).send(
+      '✅ Done',
+      'Ingestion'
+    );
+
+    expect(received).toHaveLength(1);
+    expect(received[0].headers.get('x-token')).toBe('abc');
+    expect(received[0].body).toMatchObject({
+      subject: 'Ingestion',
+      message: '✅ Done',
+    });
+  });
+
+  it('rejects when the endpoint fails', async () => {
+    webhookStatus = 500;
+
+    await expect(
+      createWebhookSink(webhookUrl).send('✅ Done', 'Ingestion')
+    ).rejects.toThrow();
+  });
+});
+
+describe('createStdoutSink', () => {
+  it('writes one JSON object per line in jsonl format', async () => {
+    const chunks: string[] = [];
+    const sink = createStdoutSink('jsonl', (chunk) => chunks.push(chunk));
+
+    await sink.send('line one\nline two', 'Report');
+
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0].endsWith('\n')).toBe(true);
+    expect(JSON.parse(chunks[0])).toMatchObject({
+      subject: 'Report',
+      message: 'line one\nline two',
+    });
+  });
+});
+
+describe('sendNotification', () => {
+  it('delivers to every sink and reports the ones that failed', async () => {
+    const messages: string[] = [];
+    const failing: NotificationSink = {
+      name: 'webhook',
+      send: async () => {
+        throw new Error('unreachable');
+      },
+    };
+
+    const failures = await sendNotification(
+      [createRecordingSink('stdout', messages), failing],
+      'Hello'
+    );
+
+    expect(messages).toEqual(['Hello']);
+    expect(failures).toHaveLength(1);
+    expect(failures[0].sink).toBe('webhook');
+  });
+});
+
+describe('createNotifier', () => {
+  it('does not throw when a sink fails', async () => {
+    const notify = createNotifier([
+      {
+        name: 'smtp',
+        send: async () => {
+          throw new Error('refused');
+        },
+      },
+    ]);
+
+    await expect(notify('Hello')).resolves.toBeUndefined();
+  });
+});
+
+describe('createNotificationSinks', () => {
+  it('builds configured sinks and skips ones that cannot be used', () => {
+    const sinks = createNotificationSinks(
+      [
+        { type: 'github' },
+        { type: 'webhook', urlEnv: 'NOTIFY_WEBHOOK_URL' },
+        {
+          type: 'smtp',
+          hostEnv: 'SMTP_HOST',
+          port: 25,
+          from: 'vault@example.com',
+          to: ['me@example.com'],
+        },
+        { type: 'stdout', format: 'jsonl' },
+      ],
+      { env: { NOTIFY_WEBHOOK_URL: webhookUrl } }
+    );
+
+    expect(sinks.map((sink) => sink.name)).toEqual(['webhook', 'stdout']);
+  });
+});
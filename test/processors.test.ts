@@ -0,0 +1,334 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import {
+  defineProcessor,
+  findProcessorForIssue,
+  processIssue,
+  registerProcessor,
+  unregisterProcessor,
+} from '@src/processors';
+
+const reader = async (): Promise<string> => {
+  throw new Error('File not found');
+};
+
+const noteProcessor = defineProcessor({
+  name: 'NoteLog',
+  match: { titlePrefix: 'Note:', label: 'note' },
+  parse: (body: string) => ({ success: true, data: body.trim() }),
+  ingest: async (note, { issue, writer }) => {
+    await writer('./vault/notes.json', JSON.stringify([note]));
+    return { success: true, message: `Saved note from "${issue.title}"` };
+  },
+});
+
+describe('processor registry', () => {
+  afterEach(() => {
+    unregisterProcessor('NoteLog');
+  });
+
+  it('matches processors by exact title, title prefix or label', () => {
+    registerProcessor(noteProcessor);
+
+    expect(
+      findProcessorForIssue({ title: 'HealthDataExport', body: '' })?.name
+    ).toBe('HealthDataExport');
+    expect(
+      findProcessorForIssue({ title: 'Note: groceries', body: '' })?.name
+    ).toBe('NoteLog');
+    expect(
+      findProcessorForIssue({ title: 'Groceries', body: '', labels: ['note'] })
+        ?.name
+    ).toBe('NoteLog');
+    expect(findProcessorForIssue({ title: 'Groceries', body: '' })).toBeNull();
+  });
+
+  it('dispatches registered processors without touching the built-ins', async () => {
+    registerProcessor(noteProcessor);
+    const written = new Map<string, string>();
+
+    const result = await processIssue(
+      { title: 'Note: groceries', body: ' buy oats ' },
+      async (path: string, content: string) => {
+        written.set(path, content);
+      },
+      reader
+    );
+
+    expect(result).toEqual({
+      success: true,
+      message: 'Saved note from "Note: groceries"',
+    });
+    expect(written.get('./vault/notes.json')).toBe('["buy oats"]');
+  });
+});
+
+describe('processIssue', () => {
+  it('routes a payload to the processor for its title', async () => {
+    const written = new Map<string, string>();
+
+    const result = await processIssue(
+      {
+        title: 'LocationDataExport',
+        body: JSON.stringify({ city: 'Lisbon', country: 'Portugal' }),
+      },
+      async (path: string, content: string) => {
+        written.set(path, content);
+      },
+      reader
+    );
+
+    expect(result.success).toBe(true);
+    expect(written.get('./vault/location.json')).toContain('Lisbon');
+  });
+
+  it('comments with the parse error when the body is invalid', async () => {
+    const comments: string[] = [];
+
+    const result = await processIssue(
+      { title: 'HealthDataExport', body: 'invalid json' },
+      async () => {},
+      reader,
+      async (comment: string) => {
+        comments.push(comment);
+      }
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.message).toContain('Error parsing health data');
+    expect(comments).toEqual([`❌ ${result.message}`]);
+  });
+
+  it('rejects unknown types and lists the registered ones', async () => {
+    const comments: string[] = [];
+
+    const result = await processIssue(
+      { title: 'UnknownTitle', body: '{}' },
+      async () => {},
+      reader,
+      async (comment: string) => {
+        comments.push(comment);
+      }
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.message).toBe(
+      'Unknown issue type: UnknownTitle. Expected "HealthDataExport", "LocationDataExport", "WorkoutLog", "MeasurementLog" or "DietLog"'
+    );
+    expect(comments).toHaveLength(1);
+  });
+});
+
+describe('log issue types', () => {
+  let files: Map<string, string>;
+  let comments: string[];
+
+  const fileReader = async (path: string): Promise<string> => {
+    const content = files.get(path);
+    if (content === undefined) {
+      throw new Error('File not found');
+    }
+    return content;
+  };
+  const fileWriter = async (path: string, content: string) => {
+    files.set(path, content);
+  };
+  const commenter = async (comment: string) => {
+    comments.push(comment);
+  };
+
+  beforeEach(() => {
+    files = new Map();
+    comments = [];
+  });
+
+  it('adds a workout from a key: value body', async () => {
+    files.set(
+      './vault/workouts.json',
+      JSON.stringify([{ date: '2026-07-01', note: 'NTC Workout' }])
+    );
+
+    const result = await processIssue(
+      {
+        title: 'WorkoutLog',
+        body: 'Date: 2026-07-02\nNote: posterior chain workout',
+      },
+      fileWriter,
+      fileReader,
+      commenter
+    );
+
+    expect(result.success).toBe(true);
+    expect(JSON.parse(files.get('./vault/workouts.json')!)).toEqual([
+      { date: '2026-07-01', note: 'NTC Workout' },
+      { date: '2026-07-02', note: 'posterior chain workout' },
+    ]);
+    expect(comments).toEqual(['✅ Added workout for 2026-07-02']);
+  });
+
+  it('records a measurement from a JSON body', async () => {
+    const result = await processIssue(
+      {
+        title: 'MeasurementLog',
+        body: JSON.stringify({
+          date: '2026-07-02',
+          type: 'weight',
+          value: 72.4,
+          unit: 'kg',
+        }),
+      },
+      fileWriter,
+      fileReader,
+      commenter
+    );
+
+    expect(result.success).toBe(true);
+    expect(JSON.parse(files.get('./vault/measurements.json')!)).toEqual([
+      { date: '2026-07-02', type: 'weight', value: 72.4, unit: 'kg' },
+    ]);
+    expect(comments).toEqual([
+      '✅ Added weight measurement for 2026-07-02: 72.4 kg',
+    ]);
+  });
+
+  it('rejects a measurement with a unit its type does not allow', async () => {
+    const result = await processIssue(
+      {
+        title: 'MeasurementLog',
+        body: 'type: waist\nvalue: 84\nunit: kg',
+      },
+      fileWriter,
+      fileReader,
+      commenter
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.message).toBe(
+      'Validation failed: unit: Unit is not allowed for this measurement type'
+    );
+    expect(files.size).toBe(0);
+    expect(comments).toEqual([`❌ ${result.message}`]);
+  });
+
+  it('rejects a blank or null measurement value instead of saving 0', async () => {
+    const blank = await processIssue(
+      { title: 'MeasurementLog', body: 'type: weight\nvalue:\nunit: kg' },
+      fileWriter,
+      fileReader,
+      commenter
+    );
+    const missing = await processIssue(
+      {
+        title: 'MeasurementLog',
+        body: JSON.stringify({ type: 'weight', value: null, unit: 'kg' }),
+      },
+      fileWriter,
+      fileReader,
+      commenter
+    );
+
+    expect(blank.message).toBe('Validation failed: value: Required');
+    expect(missing.message).toBe('Validation failed: value: Expected a number');
+    expect(files.size).toBe(0);
+  });
+
+  it('rejects blank or null diet macros instead of saving 0', async () => {
+    const blank = await processIssue(
+      {
+        title: 'DietLog',
+        body: 'meal: lunch\nitem: Rajma chawal\nquantity: 1 plate\ncalories:\ncarbs: 78\nprotein: 16.5\nfat: 9',
+      },
+      fileWriter,
+      fileReader,
+      commenter
+    );
+    const missing = await processIssue(
+      {
+        title: 'DietLog',
+        body: JSON.stringify({
+          meal: 'lunch',
+          item: 'Rajma chawal',
+          quantity: '1 plate',
+          calories: 480,
+          carbs: 78,
+          protein: null,
+          fat: 9,
+        }),
+      },
+      fileWriter,
+      fileReader,
+      commenter
+    );
+
+    expect(blank.message).toBe('Validation failed: calories: Required');
+    expect(missing.message).toBe(
+      'Validation failed: protein: Expected a number'
+    );
+    expect(files.size).toBe(0);
+  });
+
+  it('appends a diet entry stamped with the issue creation time', async () => {
+    const result = await processIssue(
+      {
+        title: 'DietLog',
+        body: [
+          'date: 2026-08-09',
+          'meal: Lunch',
+          'item: Rajma chawal',
+          'quantity: 1 plate',
+          'calories: 480',
+          'carbs: 78',
+          'protein: 16.5',
+          'fat: 9',
+        ].join('\n'),
+        createdAt: '2026-08-09T08:30:12.000Z',
+      },
+      fileWriter,
+      fileReader,
+      commenter
+    );
+
+    const log = files.get('./vault/diet-logs/2026-08-09_diet_log.md')!;
+    expect(result.success).toBe(true);
+    expect(log).toContain('diet_total_calories: 480');
+    expect(log).toContain(
+      '| 2026-08-09T08:30:12Z | Rajma chawal | 1 plate | 480 kcal | 78.0 g | 16.5 g | 9.0 g |  |'
+    );
+    expect(comments).toEqual([
+      '✅ Added Rajma chawal to lunch on 2026-08-09. Day total: 480 kcal, 16.5 g protein',
+    ]);
+  });
+
+  it('fills in diet macros from the food library', async () => {
+    files.set(
+      './vault/foods.json',
+      JSON.stringify([
+        {
+          name: 'Whey protein powder',
+          aliases: ['whey'],
+          per100g: {
+            calories: 388.5,
+            carbs_g: 12.17,
+            protein_g: 72.73,
+            fat_g: 5.1,
+          },
+        },
+      ])
+    );
+
+    const result = await processIssue(
+      {
+        title: 'DietLog',
+        body: 'date: 2026-08-09\nmeal: snacks\nitem: whey 62g',
+        createdAt: '2026-08-09T11:00:00.000Z',
+      },
+      fileWriter,
+      fileReader,
+      commenter
+    );
+
+    expect(result.success).toBe(true);
+    expect(files.get('./vault/diet-logs/2026-08-09_diet_log.md')).toContain(
+      '| 2026-08-09T11:00:00Z | Whey protein powder | 62 g | 241 kcal | 7.5 g | 45.1 g | 3.2 g | Scaled from foods.json per-100 g values (388.5 kcal, 12.17 g carbs, 72.73 g protein, 5.1 g fat) to 62 g. |'
+    );
+  });
+});
@@ -0,0 +1,91 @@
+import { afterAll, describe, expect, it } from 'bun:test';
+import { mkdir, rm } from 'node:fs/promises';
+import { buildMetricRollup, generateHealthkitRollups } from '@src/rollups';
+import {
+  getMetricDefinition,
+  heartRateVariabilityMetric,
+} from '@src/healthkit-metrics';
+
+const testDir = '/tmp/state-of-being-rollups-test';
+
+describe('buildMetricRollup', () => {
+  it('computes weekly and monthly stats with coverage', () => {
+    const rollup = buildMetricRollup(
+      [
+        { qty: 10, date: '2025-10-27 00:00:00 +0530' },
+        { qty: 20, date: '2025-10-28 00:00:00 +0530' },
+        { qty: 30, date: '2025-10-29 00:00:00 +0530' },
+        { qty: 40, date: '2025-10-30 00:00:00 +0530' },
+        { qty: 50, date: '2025-11-02 00:00:00 +0530' },
+      ],
+      heartRateVariabilityMetric,
+      { default: [] }
+    );
+
+    expect(rollup.weeks['2025-W44']).toEqual({
+      start: '2025-10-27',
+      end: '2025-11-02',
+      coverage: 0.71,
+      fields: {
+        qty: {
+          min: 10,
+          max: 50,
+          mean: 30,
+          median: 30,
+          p10: 14,
+          p90: 46,
+          count: 5,
+        },
+      },
+    });
+    expect(rollup.months['2025']['10'].coverage).toBe(0.13);
+    expect(rollup.months['2025']['11']).toMatchObject({
+      month: '11',
+      year: '2025',
+      start: '2025-11-01',
+      end: '2025-11-30',
+    });
+  });
+
+  it('combines rows of the preferred source per day with the aggregation rule', () => {
+    const rollup = buildMetricRollup(
+      [
+        { qty: 4000, source: 'iPhone', date: '2025-10-27 09:00:00 +0530' },
+        { qty: 3000, source: 'iPhone', date: '2025-10-27 18:00:00 +0530' },
+        { qty: 9000, source: 'Apple Watch', date: '2025-10-27 12:00:00 +0530' },
+      ],
+      getMetricDefinition('step_count')!,
+      { default: ['iPhone', 'Apple Watch'] }
+    );
+
+    expect(rollup.weeks['2025-W44'].fields.qty.max).toBe(7000);
+    expect(rollup.weeks['2025-W44'].fields.qty.count).toBe(1);
+  });
+});
+
+describe('generateHealthkitRollups', () => {
+  afterAll(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  it('writes a rollup file per metric that has data', async () => {
+    const healthkitDir = `${testDir}/healthkit`;
+    const saveDir = `${healthkitDir}/rollups`;
+
+    await rm(testDir, { recursive: true, force: true });
+    await mkdir(healthkitDir, { recursive: true });
+    await Bun.write(
+      `${healthkitDir}/hrv.json`,
+      JSON.stringify({
+        metrics: [{ qty: 90, date: '2025-10-27 00:00:00 +0530' }],
+      })
+    );
+
+    const result = await generateHealthkitRollups({ healthkitDir, saveDir });
+    const rollup = await Bun.file(`${saveDir}/hrv.json`).json();
+
+    expect(result.files).toEqual(['hrv.json']);
+    expect(rollup.metric).toBe('heart_rate_variability');
+    expect(rollup.weeks['2025-W44'].fields.qty.mean).toBe(90);
+  });
+});
@@ -0,0 +1,104 @@
+import { afterAll, describe, expect, it } from 'bun:test';
+import { mkdir, rm } from 'node:fs/promises';
+import { buildSleepDailyIndex, generateSleepDailyIndex } from '@src/sleep';
+
+const testDir = '/tmp/state-of-being-sleep-test';
+
+function night(day: string, bedtime: string, wakeTime: string, hours: number) {
+  return {
+    inBedStart: `${bedtime} +0530`,
+    awake: 0.5,
+    source: 'Ultrahuman',
+    sleepStart: `${bedtime} +0530`,
+    totalSleep: hours,
+    sleepEnd: `${wakeTime} +0530`,
+    date: `${day} 00:00:00 +0530`,
+    deep: hours / 4,
+    rem: hours / 4,
+    inBedEnd: `${wakeTime} +0530`,
+    inBed: 0,
+    core: hours / 2,
+    asleep: 0,
+  };
+}
+
+describe('buildSleepDailyIndex', () => {
+  it('summarises a night with local times, efficiency and stages', () => {
+    const index = buildSleepDailyIndex(
+      [night('2026-08-20', '2026-08-19 23:30:00', '2026-08-20 07:30:00', 7.5)],
+      8
+    );
+
+    expect(index['2026-08-20']).toEqual({
+      date: '2026-08-20',
+      source: 'Ultrahuman',
+      bedtime: '23:30',
+      wakeTime: '07:30',
+      midpoint: '03:30',
+      totalSleepHours: 7.5,
+      timeInBedHours: 8,
+      efficiency: 93.8,
+      stages: { deep: 23.4, rem: 23.4, core: 46.9, awake: 6.3 },
+      sleepDebtHours: 0.5,
+      trailingSleepDebtHours: 0.5,
+      consistencyScore: null,
+    });
+  });
+
+  it('accumulates sleep debt and consistency over the trailing 7 days', () => {
+    const index = buildSleepDailyIndex(
+      [
+        night('2026-08-01', '2026-07-31 23:00:00', '2026-08-01 07:00:00', 7),
+        night('2026-08-08', '2026-08-07 23:00:00', '2026-08-08 07:00:00', 6),
+        night('2026-08-09', '2026-08-08 23:00:00', '2026-08-09 07:00:00', 7),
+      ],
+      8
+    );
+
+    // 2026-08-01 falls outside the 7-day window ending on 2026-08-09
+    expect(index['2026-08-09'].trailingSleepDebtHours).toBe(3);
+    expect(index['2026-08-09'].consistencyScore).toBe(100);
+    expect(index['2026-08-08'].consistencyScore).toBeNull();
+  });
+});
+
+describe('generateSleepDailyIndex', () => {
+  afterAll(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  it('writes one entry per night using the source priority policy', async () => {
+    const sleepPath = `${testDir}/sleep.json`;
+    const savePath = `${testDir}/sleep-daily.json`;
+
+    await rm(testDir, { recursive: true, force: true });
+    await mkdir(testDir, { recursive: true });
+
+    const ringNight = night(
+      '2026-08-20',
+      '2026-08-19 23:50:00',
+      '2026-08-20 07:50:00',
+      7
+    );
+    const watchNight = {
+      ...night('2026-08-20', '2026-08-20 00:10:00', '2026-08-20 07:40:00', 6.5),
+      source: 'Apple Watch',
+    };
+    await Bun.write(
+      sleepPath,
+      JSON.stringify({ metrics: [ringNight, watchNight] })
+    );
+
+    const result = await generateSleepDailyIndex({
+      sleepPath,
+      savePath,
+      targetHours: 8,
+      sourcePriority: { default: ['Apple Watch'] },
+    });
+    const index = await Bun.file(savePath).json();
+
+    expect(result.count).toBe(1);
+    expect(index['2026-08-20'].source).toBe('Apple Watch');
+    expect(index['2026-08-20'].bedtime).toBe('00:10');
+  });
+});
@@ -0,0 +1,155 @@
+import { afterAll, beforeEach, describe, expect, it } from 'bun:test';
+import net from 'node:net';
+import { formatMailMessage, sendMail, SmtpError } from '@src/smtp';
+
+// A minimal SMTP server that records the conversation. Replies can be
+// overridden per command to simulate rejections.
+let transcript: string[] = [];
+let overrides: Record<string, string> = {};
+
+const server = net.createServer((socket) => {
+  let buffer = '';
+  let inData = false;
+  let dataLines: string[] = [];
+
+  socket.setEncoding('utf8');
+  socket.write('220 localhost ESMTP ready\r\n');
+  socket.on('data', (chunk: string) => {
+    buffer += chunk;
+    let lineEnd: number;
+    while ((lineEnd = buffer.indexOf('\r\n')) !== -1) {
+      const line = buffer.slice(0, lineEnd);
+      buffer = buffer.slice(lineEnd + 2);
+
+      if (inData) {
+        if (line === '.') {
+          inData = false;
+          transcript.push(`DATA:${dataLines.join('\n')}`);
+          socket.write('250 Queued\r\n');
+        } else {
+          dataLines.push(line);
+        }
+        continue;
+      }
+
+      transcript.push(line);
+      const verb = line.split(/[ :]/)[0].toUpperCase();
+      if (overrides[verb]) {
+        socket.write(`${overrides[verb]}\r\n`);
+        continue;
+      }
+
+      switch (verb) {
+        case 'EHLO':
+          socket.write('250-localhost\r\n250-AUTH LOGIN\r\n250 8BITMIME\r\n');
+          break;
+        case 'AUTH':
+          socket.write('334 VXNlcm5hbWU6\r\n');
+          break;
+        case 'DATA':
+          inData = true;
+          dataLines = [];
+          socket.write('354 End data with <CR><LF>.<CR><LF>\r\n');
+          break;
+        case 'QUIT':
+          socket.end('221 Bye\r\n');
+          break;
+        default:
+          // Base64 credentials after AUTH LOGIN
+          socket.write(
+            transcript.at(-2)?.startsWith('AUTH')
+              ? '334 UGFzc3dvcmQ6\r\n'
+              : transcript.at(-3)?.startsWith('AUTH')
+                ? '235 Authenticated\r\n'
+                : '250 OK\r\n'
+          );
+      }
+    }
+  });
+});
+
+await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+const port = (server.address() as net.AddressInfo).port;
+
+afterAll(() => {
+  server.close();
+});
+
+beforeEach(() => {
+  transcript = [];
+  overrides = {};
+});
+
+const message = {
+  from: 'vault@example.com',
+  to: ['me@example.com', 'partner@example.com'],
+  subject: '✅ Ingested',
+  text: 'Saved 2 entries\n.hidden line',
+};
+
+describe('sendMail', () => {
+  it('delivers a message with authentication', async () => {
+    await sendMail(
+      { host: '127.0.0.1', port, username: 'user', password: 'secret' },
+      message
+    );
+
+    expect(transcript.slice(0, 8)).toEqual([
+      'EHLO localhost',
+      'AUTH LOGIN',
+      Buffer.from('user').toString('base64'),
+      Buffer.from('secret').toString('base64'),
+      'MAIL FROM:<vault@example.com>',
+      'RCPT TO:<me@example.com>',
+      'RCPT TO:<partner@example.com>',
+      'DATA',
+    ]);
+    expect(transcript[8]).toContain('Subject: =?UTF-8?B?');
+    expect(transcript[8]).toContain('\n\nSaved 2 entries\n..hidden line');
+    expect(transcript[9]).toBe('QUIT');
+  });
+
+  it('skips authentication without credentials', async () => {
+    await sendMail({ host: '127.0.0.1', port }, message);
+
+    expect(transcript[1]).toBe('MAIL FROM:<vault@example.com>');
+  });
+
+  it('throws the reply code when the server rejects a command', async () => {
+    overrides = { RCPT: '550 No such user' };
+
+    const error = await sendMail({ host: '127.0.0.1', port }, message).catch(
+      (error) => error
+    );
+
+    expect(error).toBeInstanceOf(SmtpError);
+    expect(error.code).toBe(550);
+    expect(error.message).toBe('SMTP RCPT TO failed: 550 No such user');
+  });
+
+  it('fails when nothing is listening', async () => {
+    const closed = net.createServer();
+    await new Promise<void>((resolve) =>
+      closed.listen(0, '127.0.0.1', resolve)
+    );
+    const closedPort = (closed.address() as net.AddressInfo).port;
+    await new Promise((resolve) => closed.close(resolve));
+
+    await expect(
+      sendMail({ host: '127.0.0.1', port: closedPort }, message)
+    ).rejects.toBeInstanceOf(SmtpError);
+  });
+});
+
+describe('formatMailMessage', () => {
+  it('leaves ASCII subjects readable and uses CRLF line endings', () => {
+    const formatted = formatMailMessage(
+      { ...message, subject: 'Daily report', text: 'a\nb' },
+      new Date('2025-11-02T08:00:00Z')
+    );
+
+    expect(formatted).toContain('Subject: Daily report\r\n');
+    expect(formatted).toContain('Date: Sun, 02 Nov 2025 08:00:00 GMT\r\n');
+    expect(formatted.endsWith('\r\n\r\na\r\nb')).toBe(true);
+  });
+});
@@ -1,6 +1,10 @@
 import { expect, describe, it } from 'bun:test';
 import {
+  compareHealthKitDates,
   getCurrentDate,
+  getHealthKitLocalDate,
+  getIsoWeek,
+  parseHealthKitDate,
   getWeekdaysInMonth,
   getMonthName,
   hasMonthPassed,
@@ -72,3 +76,67 @@ describe('getPreviousMonthAndYear', () => {
     });
   });
 });
+
+describe('parseHealthKitDate', () => {
+  it('should normalise a HealthKit timestamp to an instant and local day', () => {
+    expect(parseHealthKitDate('2024-11-01 00:57:00 +0530')).toEqual({
+      raw: '2024-11-01 00:57:00 +0530',
+      instant: Date.parse('2024-10-31T19:27:00Z'),
+      iso: '2024-10-31T19:27:00.000Z',
+      localDate: '2024-11-01',
+      localTime: '00:57',
+      offsetMinutes: 330,
+    });
+  });
+
+  it('should handle negative offsets and missing offsets', () => {
+    expect(parseHealthKitDate('2025-03-09 23:30:00 -0700')?.iso).toBe(
+      '2025-03-10T06:30:00.000Z'
+    );
+    expect(parseHealthKitDate('2025-03-09 23:30:00')?.offsetMinutes).toBe(0);
+  });
+
+  it('should return null for unparseable or impossible dates', () => {
+    expect(parseHealthKitDate('yesterday')).toBeNull();
+    expect(parseHealthKitDate('2025-02-30 00:00:00 +0000')).toBeNull();
+  });
+});
+
+describe('compareHealthKitDates', () => {
+  it('should order timestamps by instant across offsets', () => {
+    const dates = [
+      '2025-10-29 00:00:00 +0530',
+      '2025-10-29 00:00:00 +0700',
+      '2025-10-28 20:00:00 +0000',
+    ];
+
+    expect([...dates].sort(compareHealthKitDates)).toEqual([
+      '2025-10-29 00:00:00 +0700',
+      '2025-10-29 00:00:00 +0530',
+      '2025-10-28 20:00:00 +0000',
+    ]);
+  });
+});
+
+describe('getHealthKitLocalDate', () => {
+  it('should return the calendar day in the recorded offset', () => {
+    expect(getHealthKitLocalDate('2025-10-29 00:00:00 +0700')).toBe(
+      '2025-10-29'
+    );
+  });
+});
+
+describe('getIsoWeek', () => {
+  it('should return the ISO week key with its Monday to Sunday range', () => {
+    expect(getIsoWeek('2025-10-29')).toEqual({
+      key: '2025-W44',
+      start: '2025-10-27',
+      end: '2025-11-02',
+    });
+  });
+
+  it('should assign days around new year to the week containing Thursday', () => {
+    expect(getIsoWeek('2024-12-30').key).toBe('2025-W01');
+    expect(getIsoWeek('2027-01-03').key).toBe('2026-W53');
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'bun:test';
+import { bucketByWeekAndMonth, groupBy, round } from '@src/utils';
+
+describe('round', () => {
+  it('rounds to the given number of decimals', () => {
+    expect(round(1.2345, 2)).toBe(1.23);
+    expect(round(-21.55, 0)).toBe(-22);
+  });
+});
+
+describe('groupBy', () => {
+  it('groups items by key in the order they first appear', () => {
+    const groups = groupBy(['2026-07-31', '2026-08-01', '2026-07-30'], (date) =>
+      date.slice(0, 7)
+    );
+
+    expect([...groups]).toEqual([
+      ['2026-07', ['2026-07-31', '2026-07-30']],
+      ['2026-08', ['2026-08-01']],
+    ]);
+  });
+});
+
+describe('bucketByWeekAndMonth', () => {
+  it('buckets days by ISO week and by year then month', () => {
+    const days = [{ date: '2026-06-30' }, { date: '2026-07-01' }];
+    const { weeks, months } = bucketByWeekAndMonth(
+      days,
+      (periodDays, start, end, daysInPeriod) => ({
+        start,
+        end,
+        days: periodDays.length,
+        daysInPeriod,
+      })
+    );
+
+    expect(weeks).toEqual({
+      '2026-W27': {
+        start: '2026-06-29',
+        end: '2026-07-05',
+        days: 2,
+        daysInPeriod: 7,
+      },
+    });
+    expect(months[2026][7]).toEqual({
+      month: '7',
+      year: '2026',
+      start: '2026-07-01',
+      end: '2026-07-31',
+      days: 1,
+      daysInPeriod: 31,
+    });
+    expect(months[2026][6].daysInPeriod).toBe(30);
+  });
+});
@@ -204,4 +204,40 @@ describe("vault CLI", () => {
       expect(await readJson(measurementsPath)).toEqual([]);
     });
   });
+
+  describe("ingest", () => {
+    it("stamps replayed payloads with --created-at", async () => {
+      const tempDir = await mkdtemp(path.join(tmpdir(), "ingest-"));
+      tempDirs.push(tempDir);
+      const payloadPath = path.join(tempDir, "diet.json");
+      await writeFile(
+        payloadPath,
+        JSON.stringify({
+          date: "2026-08-09",
+          meal: "lunch",
+          item: "Rajma chawal",
+          quantity: "1 plate",
+          calories: 480,
+          carbs: 78,
+          protein: 16.5,
+          fat: 9,
+        }),
+      );
+
+      const result = runCli(
+        { DIET_LOGS_PATH: tempDir },
+        "ingest",
+        "--type",
+        "DietLog",
+        "--created-at",
+        "2026-08-09T08:30:12Z",
+        payloadPath,
+      );
+
+      expect(result.status).toBe(0);
+      expect(
+        await readFile(path.join(tempDir, "2026-08-09_diet_log.md"), "utf8"),
+      ).toContain("| 2026-08-09T08:30:12Z | Rajma chawal | 1 plate |");
+    });
+  });
 });